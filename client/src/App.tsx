@@ -7,6 +7,7 @@ import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import TeacherDashboard from "@/pages/teacher-dashboard";
+import GuardianDashboard from "@/pages/guardian-dashboard";
 import AuthPage from "@/pages/auth-page";
 
 function Router() {
@@ -16,6 +17,7 @@ function Router() {
       <Route path="/dashboard" component={() => <ProtectedRoute path="/dashboard" component={Dashboard} />} />
       <Route path="/" component={() => <ProtectedRoute path="/" component={Dashboard} />} />
       <Route path="/teacher" component={() => <ProtectedRoute path="/teacher" component={TeacherDashboard} />} />
+      <Route path="/guardian" component={() => <ProtectedRoute path="/guardian" component={GuardianDashboard} />} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,36 @@
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { normalizeMath } from "@/lib/markdown";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github.css";
+
+interface ChatMarkdownProps {
+  content: string;
+}
+
+// Renders a tutor reply. Sanitizing runs before KaTeX and highlighting so only
+// their own markup is added after untrusted HTML has been stripped.
+export function ChatMarkdown({ content }: ChatMarkdownProps) {
+  return (
+    <div className="prose prose-sm max-w-none break-words prose-p:my-1 prose-pre:bg-white/80 prose-pre:text-gray-900 prose-pre:border prose-table:my-2 [&_.katex-display]:overflow-x-auto [&_.katex-display]:overflow-y-hidden">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeSanitize, rehypeKatex, rehypeHighlight]}
+        components={{
+          a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+          table: ({ node, ...props }) => (
+            <div className="overflow-x-auto">
+              <table {...props} />
+            </div>
+          ),
+        }}
+      >
+        {normalizeMath(content)}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -1,84 +1,210 @@
 import { useState, useRef, useEffect } from 'react';
-import { X, Send, LucideIcon, Mic, Volume2, StopCircle } from 'lucide-react';
+import { useQuery } from "@tanstack/react-query";
+import { X, Send, LucideIcon, Mic, Volume2, StopCircle, History, MessageSquarePlus, Loader2, ThumbsUp, ThumbsDown, Flag, ImagePlus, ListChecks } from 'lucide-react';
+import { type ChatStreamEvent, type ChatSuggestion, type Citation, type ConversationSummary, type ConversationWithMessages, type LiveChatEvent, type PublicMessage, type MessageFeedback, type MessageFeedbackInput } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { readEventStream } from "@/lib/sse";
+import { useLiveChat } from "@/hooks/use-live-chat";
+import { useAuth } from "@/hooks/use-auth";
+import { toSpeechText } from "@/lib/markdown";
+import { ChatMarkdown } from "@/components/chat-markdown";
+import { CitationChips } from "@/components/citation-chips";
+import { PracticeQuizDialog } from "@/components/practice-quiz-dialog";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
+import { format } from 'date-fns';
 
 interface ChatMessage {
   sender: string;
   message: string;
-}
-
-interface CircuitSettings {
-  grade: string;
-  stateStandards?: string;
-  subjectArea?: string;
-  difficultyLevel?: string;
-  teachingStyle?: string;
-  learningObjectives?: string[];
+  kind?: 'teacher' | 'event'; // a teacher who joined the chat, or a notice that they joined or left
+  id?: number; // saved tutor replies, which the student can rate
+  rating?: MessageFeedback['rating'];
+  reported?: boolean;
+  imageUrl?: string; // a photo the student attached
+  citations?: Citation[];
 }
 
 interface ChatModalProps {
   circuit: {
+    id: string;
     subject: string;
     teacher: string;
     Icon: LucideIcon;
     bgColor: string;
     accentColor: string;
     teacherVoiceId?: string;
-    settings?: CircuitSettings;
+    welcomeMessage: string;
+    nudgeMessage: string | null; // null when the teacher turned nudges off
+    nudgeIntervalMinutes: number;
   } | null;
   isOpen: boolean;
   onClose: () => void;
 }
 
-const CHAT_SUGGESTIONS = [
-  [
-    { text: "I was absent. What did I miss?", icon: "🎯" },
-    { text: "Review today's lesson", icon: "📚" },
-    { text: "Help with homework", icon: "✏️" },
-    { text: "I need extra practice", icon: "🎯" },
-    { text: "Explain a concept", icon: "💡" },
-    { text: "Check my work", icon: "✅" },
-    { text: "Next test/quiz", icon: "📅" },
-    { text: "Create a study guide", icon: "📝" },
-    { text: "Practice problems", icon: "🔢" },
-  ],
-  [
-    { text: "Break this down step by step", icon: "🪜" },
-    { text: "Can you explain it differently?", icon: "🔄" },
-    { text: "Show me an example", icon: "👀" },
-    { text: "What are the key points?", icon: "🎯" },
-    { text: "Why is this important?", icon: "❓" },
-    { text: "How does this connect to real life?", icon: "🌎" },
-    { text: "What should I focus on?", icon: "🎯" },
-    { text: "I'm stuck, can you help?", icon: "🤔" },
-  ],
-  [
-    { text: "Prepare for upcoming test", icon: "📝" },
-    { text: "Review past material", icon: "📚" },
-    { text: "Create practice questions", icon: "❓" },
-    { text: "Summarize the main ideas", icon: "📋" },
-    { text: "Give me a challenge problem", icon: "🏆" },
-    { text: "Compare and contrast", icon: "⚖️" },
-    { text: "Visual explanation please", icon: "🎨" },
-    { text: "How can I improve?", icon: "📈" },
-  ]
-];
+// Matches what the chat endpoint accepts
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+// Suggestions scroll in up to three rows, each full enough to loop smoothly
+const MIN_SUGGESTIONS_PER_ROW = 4;
+
+function toSuggestionRows(suggestions: ChatSuggestion[]): ChatSuggestion[][] {
+  const rowCount = Math.min(3, Math.max(1, Math.floor(suggestions.length / MIN_SUGGESTIONS_PER_ROW)));
+  const rows: ChatSuggestion[][] = Array.from({ length: rowCount }, () => []);
+  suggestions.forEach((suggestion, index) => rows[index % rowCount].push(suggestion));
+  return rows;
+}
 
 const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
+  const { user } = useAuth();
   const [message, setMessage] = useState('');
+  const [attachment, setAttachment] = useState<{ file: File; previewUrl: string } | null>(null);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [conversationId, setConversationId] = useState<number | null>(null);
   const [lastActivity, setLastActivity] = useState(Date.now());
   const [isRecording, setIsRecording] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(true);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isQuizOpen, setIsQuizOpen] = useState(false);
+  const [liveTeacher, setLiveTeacher] = useState<string | null>(null);
+  // The reply the student is writing a comment about, and whether it is a problem report
+  const [feedbackComment, setFeedbackComment] = useState<{ index: number; report: boolean } | null>(null);
+  const [commentText, setCommentText] = useState('');
   const inactivityTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const recognitionRef = useRef<any>(null);
+  const restoredCircuitRef = useRef<string | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const conversationsUrl = `/api/wisdom-circuits/${circuit?.id}/conversations`;
+  const { data: conversations } = useQuery<ConversationSummary[]>({
+    queryKey: [conversationsUrl],
+    enabled: isOpen && !!circuit,
+  });
+
+  const { data: suggestions = [] } = useQuery<ChatSuggestion[]>({
+    queryKey: [`/api/circuit/${circuit?.id}/suggestions`],
+    enabled: isOpen && !!circuit,
+  });
+
+  // Fills in {name} in the circuit's greeting and nudge text
+  const personalize = (text: string) =>
+    text.replace(/\{name\}/g, user?.displayName || user?.email.split('@')[0] || 'there');
+
+  const getGreeting = (): ChatMessage[] => circuit ? [
+    {
+      sender: circuit.teacher,
+      message: personalize(circuit.welcomeMessage)
+    }
+  ] : [];
+
+  const toChatMessage = (saved: PublicMessage, feedback?: MessageFeedback): ChatMessage => {
+    if (saved.role === 'teacher' || saved.role === 'event') {
+      return { sender: saved.authorName ?? 'Teacher', message: saved.content, kind: saved.role };
+    }
+    if (saved.role === 'user') {
+      return {
+        sender: 'You',
+        message: saved.content,
+        imageUrl: saved.attachmentType ? `/api/messages/${saved.id}/attachment` : undefined,
+      };
+    }
+    return {
+      sender: circuit?.teacher ?? '',
+      message: saved.content,
+      // Scripted replies to withheld messages can't be rated
+      id: saved.withheldFromModel ? undefined : saved.id,
+      citations: (saved.citations as Citation[] | null) ?? undefined,
+      rating: feedback?.rating ?? null,
+      reported: feedback?.reported ?? false,
+    };
+  };
+
+  const sendFeedback = async (index: number, feedback: MessageFeedbackInput) => {
+    const reply = chatHistory[index];
+    if (!reply?.id) return;
+
+    try {
+      const response = await apiRequest('PUT', `/api/messages/${reply.id}/feedback`, feedback);
+      const saved: MessageFeedback = await response.json();
+      setChatHistory(prev => prev.map((chat, chatIndex) =>
+        chatIndex === index ? { ...chat, rating: saved.rating, reported: saved.reported } : chat
+      ));
+    } catch (error) {
+      console.error('Feedback error:', error);
+    }
+  };
+
+  const submitComment = () => {
+    if (!feedbackComment) return;
+    sendFeedback(feedbackComment.index, {
+      comment: commentText.trim() || null,
+      ...(feedbackComment.report ? { reported: true } : {}),
+    });
+    setFeedbackComment(null);
+    setCommentText('');
+  };
+
+  // Teachers can join the open conversation in place of the tutor
+  useLiveChat({
+    enabled: isOpen && conversationId !== null,
+    subscriptions: conversationId !== null ? [{ type: 'subscribe', conversationId }] : [],
+    onEvent: (event: LiveChatEvent) => {
+      if (event.type === 'error' || event.conversationId !== conversationId) return;
+
+      if (event.type === 'takeover') {
+        setLiveTeacher(event.teacherName);
+      } else if (event.message.role === 'teacher' || event.message.role === 'event') {
+        // The student's own messages and the tutor's replies arrive over HTTP
+        setChatHistory(prev => [...prev, toChatMessage(event.message)]);
+      }
+    },
+  });
+
+  const loadConversation = async (id: number) => {
+    if (!circuit) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${id}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('Failed to load conversation');
+      }
+
+      const conversation: ConversationWithMessages = await response.json();
+      setConversationId(conversation.id);
+      setLiveTeacher(null);
+      setChatHistory(conversation.messages.map(saved =>
+        toChatMessage(saved, conversation.feedback?.find(feedback => feedback.messageId === saved.id))
+      ));
+      setIsSuggestionsOpen(false);
+    } catch (error) {
+      console.error('Conversation load error:', error);
+    }
+  };
+
+  const startNewConversation = () => {
+    setConversationId(null);
+    setLiveTeacher(null);
+    setChatHistory(getGreeting());
+    setIsSuggestionsOpen(true);
+    handleInteraction();
+  };
 
   const handleInteraction = () => {
     setLastActivity(Date.now());
@@ -89,14 +215,15 @@ const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
   };
 
   const startInactivityTimer = () => {
+    if (!circuit?.nudgeMessage) return;
+    const nudgeMessage = circuit.nudgeMessage;
+
     inactivityTimeoutRef.current = setTimeout(() => {
-      if (circuit) {
-        setChatHistory(prev => [...prev, {
-          sender: circuit.teacher,
-          message: "Tommy... just making sure you're still with me. Would you like me to give you some problems to work on that can help with our class material?"
-        }]);
-      }
-    }, 120000); // 2 minutes
+      setChatHistory(prev => [...prev, {
+        sender: circuit.teacher,
+        message: personalize(nudgeMessage)
+      }]);
+    }, circuit.nudgeIntervalMinutes * 60 * 1000);
   };
 
   // Speech Recognition functions
@@ -207,57 +334,123 @@ const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
     setIsSpeaking(false);
   };
 
+  const stopStreaming = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  const attachImage = (file: File | undefined) => {
+    if (!file) return;
+    if (!IMAGE_TYPES.includes(file.type)) {
+      alert('Please choose a JPEG, PNG, GIF or WebP image.');
+      return;
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+      alert('Please choose an image smaller than 10MB.');
+      return;
+    }
+    setAttachment({ file, previewUrl: URL.createObjectURL(file) });
+    handleInteraction();
+  };
+
   const handleSend = async (customMessage: string | null = null) => {
     const messageToSend = customMessage || message;
-    if (messageToSend.trim() && circuit) {
-      setChatHistory([...chatHistory, { sender: 'You', message: messageToSend.trim() }]);
+    const image = attachment;
+    if ((messageToSend.trim() || image) && circuit && !isStreaming) {
+      // The reply fills in below the student's message as tokens arrive
+      const replyIndex = chatHistory.length + 1;
+      const updateReply = (update: (reply: string) => string) => {
+        setChatHistory(prev => prev.map((chat, index) =>
+          index === replyIndex ? { ...chat, message: update(chat.message) } : chat
+        ));
+      };
+
+      setChatHistory([
+        ...chatHistory,
+        { sender: 'You', message: messageToSend.trim(), imageUrl: image?.previewUrl },
+        { sender: circuit.teacher, message: '' },
+      ]);
       setMessage('');
+      setAttachment(null);
       handleInteraction();
 
       // After first message, collapse the suggestions
       setIsSuggestionsOpen(false);
 
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+      setIsStreaming(true);
+
       try {
-        const response = await fetch('/api/chat', {
+        // The server builds the tutor's context from the stored circuit.
+        // Photos go as form data, which sets its own content type.
+        let body: FormData | string;
+        if (image) {
+          body = new FormData();
+          body.append('message', messageToSend.trim());
+          if (conversationId) body.append('conversationId', conversationId.toString());
+          body.append('image', image.file);
+        } else {
+          body = JSON.stringify({
+            message: messageToSend.trim(),
+            conversationId,
+          });
+        }
+
+        const response = await fetch(`/api/circuit/${circuit.id}/chat/stream`, {
           method: 'POST',
-          headers: {
+          headers: image ? undefined : {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({
-            message: messageToSend.trim(),
-            circuitSettings: circuit.settings,
-            subject: circuit.subject,
-            grade: circuit.settings?.grade || 'K',
-            stateStandards: circuit.settings?.stateStandards,
-            teachingStyle: circuit.settings?.teachingStyle,
-            learningObjectives: circuit.settings?.learningObjectives,
-          }),
+          body,
+          signal: abortController.signal,
         });
 
         if (!response.ok) {
           throw new Error('Failed to get chat response');
         }
 
-        const data = await response.json();
-        const aiResponse = data.response;
-
-        setChatHistory(prev => [...prev, {
-          sender: circuit.teacher,
-          message: aiResponse
-        }]);
-
+        await readEventStream(response, (event, data) => {
+          const streamed = { event, data } as ChatStreamEvent;
+          if (streamed.event === 'start') {
+            // The server starts a conversation on the first message
+            setConversationId(streamed.data.conversationId);
+          } else if (streamed.event === 'token') {
+            updateReply(reply => reply + streamed.data.token);
+          } else if (streamed.event === 'replace') {
+            // Moderation stopped the reply part way through
+            updateReply(() => streamed.data.text);
+          } else if (streamed.event === 'done') {
+            // Saved replies can be rated, and show the content they cited
+            const { messageId, citations } = streamed.data;
+            if (messageId) {
+              setChatHistory(prev => prev.map((chat, index) =>
+                index === replyIndex ? { ...chat, id: messageId, citations } : chat
+              ));
+            }
+          } else if (streamed.event === 'paused') {
+            // A teacher is answering instead; their reply comes over the live chat socket
+            setLiveTeacher(streamed.data.teacherName);
+          } else if (streamed.event === 'error') {
+            throw new Error(streamed.data.error);
+          }
+        });
       } catch (error) {
-        console.error('Chat error:', error);
-        setChatHistory(prev => [...prev, {
-          sender: circuit.teacher,
-          message: "I'm sorry, I'm having trouble responding right now. Please try again."
-        }]);
+        if (!abortController.signal.aborted) {
+          console.error('Chat error:', error);
+          updateReply(() => "I'm sorry, I'm having trouble responding right now. Please try again.");
+        }
+      } finally {
+        // Drop the placeholder if the student stopped before any tokens arrived
+        setChatHistory(prev => prev.filter((chat, index) => index !== replyIndex || chat.message));
+        streamAbortRef.current = null;
+        setIsStreaming(false);
+        queryClient.invalidateQueries({ queryKey: [conversationsUrl] });
       }
     }
   };
 
   const ChatSuggestionRow = ({ suggestions, direction = 'left', speed = 40 }: {
-    suggestions: Array<{ text: string, icon: string }>,
+    suggestions: ChatSuggestion[],
     direction?: 'left' | 'right',
     speed?: number
   }) => {
@@ -306,12 +499,9 @@ const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
 
   useEffect(() => {
     if (circuit) {
-      setChatHistory([
-        {
-          sender: circuit.teacher,
-          message: "Hello Tommy! I'm here to help you with today's lesson, homework, or reviewing any material in the class. What can I help you with today?"
-        }
-      ]);
+      restoredCircuitRef.current = null;
+      setConversationId(null);
+      setChatHistory(getGreeting());
       handleInteraction();
     }
     return () => {
@@ -319,12 +509,22 @@ const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
         clearTimeout(inactivityTimeoutRef.current);
       }
       stopSpeaking();
+      streamAbortRef.current?.abort();
       if (recognitionRef.current) {
         recognitionRef.current.stop();
       }
     };
   }, [circuit]);
 
+  // Pick up where the student left off with this circuit
+  useEffect(() => {
+    if (!circuit?.id || !conversations || restoredCircuitRef.current === circuit.id) return;
+    restoredCircuitRef.current = circuit.id;
+    if (conversations.length > 0) {
+      loadConversation(conversations[0].id);
+    }
+  }, [circuit?.id, conversations]);
+
   if (!isOpen || !circuit) return null;
 
   return (
@@ -335,15 +535,66 @@ const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
             <circuit.Icon className={`h-8 w-8 ${circuit.accentColor}`} />
             <div>
               <h3 className="font-bold text-gray-900">{circuit.subject}</h3>
-              <p className="text-sm text-gray-600">with {circuit.teacher}</p>
+              <p className="text-sm text-gray-600">
+                {liveTeacher ? `${liveTeacher} has joined the chat` : `with ${circuit.teacher}`}
+              </p>
             </div>
           </div>
-          <button
-            onClick={onClose}
-            className="rounded-full p-2 hover:bg-gray-100 transition-colors"
-          >
-            <X className="h-5 w-5 text-gray-500" />
-          </button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              title="New conversation"
+              onClick={startNewConversation}
+              disabled={isStreaming}
+              className="rounded-full"
+            >
+              <MessageSquarePlus className="h-5 w-5 text-gray-500" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Practice quiz"
+              onClick={() => setIsQuizOpen(true)}
+              className="rounded-full"
+            >
+              <ListChecks className="h-5 w-5 text-gray-500" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" title="Past conversations" className="rounded-full" disabled={isStreaming}>
+                  <History className="h-5 w-5 text-gray-500" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-72 max-h-80 overflow-y-auto">
+                <DropdownMenuLabel>Past conversations</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {!conversations?.length && (
+                  <div className="px-2 py-1.5 text-sm text-gray-500">No saved conversations yet</div>
+                )}
+                {conversations?.map((conversation) => (
+                  <DropdownMenuItem
+                    key={conversation.id}
+                    onClick={() => loadConversation(conversation.id)}
+                    className={conversation.id === conversationId ? 'bg-muted' : ''}
+                  >
+                    <div className="min-w-0">
+                      <div className="truncate">{conversation.title}</div>
+                      <div className="text-xs text-gray-500">
+                        {format(new Date(conversation.updatedAt), 'PP p')} · {conversation.messageCount} messages
+                      </div>
+                    </div>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <button
+              onClick={onClose}
+              className="rounded-full p-2 hover:bg-gray-100 transition-colors"
+            >
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
         </div>
 
         <div className="flex flex-col h-full overflow-hidden bg-white/40">
@@ -354,7 +605,9 @@ const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
               </div>
 
               <div className="space-y-4 relative z-10">
-                {chatHistory.map((chat, index) => (
+                {chatHistory.map((chat, index) => chat.kind === 'event' ? (
+                  <p key={index} className="text-center text-xs italic text-gray-500">{chat.message}</p>
+                ) : (
                   <div
                     key={index}
                     className={`flex ${chat.sender === 'You' ? 'justify-end' : 'justify-start'}`}
@@ -363,21 +616,93 @@ const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
                       className={`max-w-[80%] rounded-lg p-3 shadow-sm ${
                         chat.sender === 'You'
                           ? 'bg-blue-500 text-white'
-                          : `${circuit.bgColor} border border-gray-200`
+                          : chat.kind === 'teacher'
+                            ? 'bg-amber-50 border border-amber-300'
+                            : `${circuit.bgColor} border border-gray-200`
                       }`}
                     >
                       <p className="text-sm font-medium mb-1">{chat.sender}</p>
-                      <p className="whitespace-pre-wrap">{chat.message}</p>
-                      {chat.sender !== 'You' && (
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="mt-2"
-                          onClick={() => isSpeaking ? stopSpeaking() : speakMessage(chat.message)}
-                        >
-                          {isSpeaking ? <StopCircle className="h-4 w-4 mr-2" /> : <Volume2 className="h-4 w-4 mr-2" />}
-                          {isSpeaking ? 'Stop Reading' : 'Read Aloud'}
-                        </Button>
+                      {chat.imageUrl && (
+                        <a href={chat.imageUrl} target="_blank" rel="noopener noreferrer">
+                          <img src={chat.imageUrl} alt="Attached work" className="max-h-48 rounded mb-2" />
+                        </a>
+                      )}
+                      {chat.sender === 'You' ? (
+                        chat.message && <p className="whitespace-pre-wrap">{chat.message}</p>
+                      ) : !chat.message ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+                      ) : (
+                        <ChatMarkdown content={chat.message} />
+                      )}
+                      {chat.citations && chat.citations.length > 0 && (
+                        <CitationChips citations={chat.citations} />
+                      )}
+                      {chat.sender !== 'You' && chat.message && (
+                        <div className="mt-2 flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => isSpeaking ? stopSpeaking() : speakMessage(toSpeechText(chat.message))}
+                          >
+                            {isSpeaking ? <StopCircle className="h-4 w-4 mr-2" /> : <Volume2 className="h-4 w-4 mr-2" />}
+                            {isSpeaking ? 'Stop Reading' : 'Read Aloud'}
+                          </Button>
+                          {chat.id && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="This helped"
+                                className={`h-8 w-8 ${chat.rating === 'up' ? 'text-green-600' : 'text-gray-500'}`}
+                                onClick={() => sendFeedback(index, { rating: chat.rating === 'up' ? null : 'up' })}
+                              >
+                                <ThumbsUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="This didn't help"
+                                className={`h-8 w-8 ${chat.rating === 'down' ? 'text-red-600' : 'text-gray-500'}`}
+                                onClick={() => {
+                                  const undo = chat.rating === 'down';
+                                  sendFeedback(index, { rating: undo ? null : 'down' });
+                                  setFeedbackComment(undo ? null : { index, report: false });
+                                }}
+                              >
+                                <ThumbsDown className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={chat.reported ? 'Reported to your teacher' : 'Report a problem'}
+                                className={`h-8 w-8 ${chat.reported ? 'text-amber-600' : 'text-gray-500'}`}
+                                disabled={chat.reported}
+                                onClick={() => setFeedbackComment({ index, report: true })}
+                              >
+                                <Flag className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                      {feedbackComment?.index === index && (
+                        <div className="mt-2 space-y-2">
+                          <Textarea
+                            value={commentText}
+                            onChange={(e) => setCommentText(e.target.value)}
+                            placeholder={feedbackComment.report ? 'What seems wrong? Your teacher will take a look.' : 'What would have helped? (optional)'}
+                            rows={2}
+                            className="bg-white"
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => setFeedbackComment(null)}>
+                              Cancel
+                            </Button>
+                            <Button size="sm" onClick={submitComment}>
+                              {feedbackComment.report ? 'Report' : 'Send'}
+                            </Button>
+                          </div>
+                        </div>
                       )}
                     </div>
                   </div>
@@ -406,7 +731,7 @@ const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
                 <CollapsibleContent>
                   <div className="mt-4">
                     <div className="space-y-4">
-                      {CHAT_SUGGESTIONS.map((rowSuggestions, index) => (
+                      {toSuggestionRows(suggestions).map((rowSuggestions, index) => (
                         <ChatSuggestionRow
                           key={index}
                           suggestions={rowSuggestions}
@@ -421,6 +746,18 @@ const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
             </div>
 
             <div className="border-t p-4 bg-white/80">
+              {attachment && (
+                <div className="relative mb-2 inline-block">
+                  <img src={attachment.previewUrl} alt="Photo to send" className="h-20 rounded border" />
+                  <button
+                    onClick={() => setAttachment(null)}
+                    title="Remove photo"
+                    className="absolute -right-2 -top-2 rounded-full bg-white p-0.5 shadow"
+                  >
+                    <X className="h-4 w-4 text-gray-600" />
+                  </button>
+                </div>
+              )}
               <div className="flex gap-2">
                 <input
                   type="text"
@@ -433,25 +770,60 @@ const ChatModal = ({ circuit, isOpen, onClose }: ChatModalProps) => {
                   placeholder="Ask about today's lesson or get homework help..."
                   className="flex-1 rounded-full border border-gray-200 px-4 py-2 focus:border-blue-500 focus:outline-none"
                 />
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={IMAGE_TYPES.join(',')}
+                  className="hidden"
+                  onChange={(e) => {
+                    attachImage(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
                 <Button
                   variant="ghost"
                   size="icon"
-                  onClick={isRecording ? stopRecording : startRecording}
-                  className={`rounded-full ${isRecording ? 'bg-red-100 text-red-600' : 'hover:bg-gray-100'}`}
+                  title="Attach a photo of your work"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="rounded-full hover:bg-gray-100"
                 >
-                  {isRecording ? <StopCircle className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
+                  <ImagePlus className="h-5 w-5" />
                 </Button>
                 <Button
-                  onClick={() => handleSend()}
-                  className={`rounded-full ${circuit.accentColor} p-2 text-white hover:opacity-90`}
+                  variant="ghost"
+                  size="icon"
+                  onClick={isRecording ? stopRecording : startRecording}
+                  className={`rounded-full ${isRecording ? 'bg-red-100 text-red-600' : 'hover:bg-gray-100'}`}
                 >
-                  <Send className="h-5 w-5" />
+                  {isRecording ? <StopCircle className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
                 </Button>
+                {isStreaming ? (
+                  <Button
+                    onClick={stopStreaming}
+                    title="Stop generating"
+                    className={`rounded-full ${circuit.accentColor} p-2 text-white hover:opacity-90`}
+                  >
+                    <StopCircle className="h-5 w-5" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => handleSend()}
+                    className={`rounded-full ${circuit.accentColor} p-2 text-white hover:opacity-90`}
+                  >
+                    <Send className="h-5 w-5" />
+                  </Button>
+                )}
               </div>
             </div>
           </div>
         </div>
       </div>
+      <PracticeQuizDialog
+        circuitId={parseInt(circuit.id)}
+        subject={circuit.subject}
+        open={isQuizOpen}
+        onOpenChange={setIsQuizOpen}
+      />
     </div>
   );
 };
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { type WisdomCircuit, type CircuitChatSettings } from "@shared/schema";
+import { getDefaultChatGreeting } from "@shared/circuit-templates";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+
+interface CircuitChatSettingsProps {
+  circuit: WisdomCircuit;
+  onCircuitUpdated: (circuit: WisdomCircuit) => void;
+}
+
+export function CircuitChatSettings({ circuit, onCircuitUpdated }: CircuitChatSettingsProps) {
+  const { toast } = useToast();
+  const defaults = getDefaultChatGreeting(circuit.grade);
+  // Blank fields fall back to the defaults for the circuit's grade
+  const [welcomeMessage, setWelcomeMessage] = useState(circuit.welcomeMessage ?? '');
+  const [nudgeMessage, setNudgeMessage] = useState(circuit.nudgeMessage ?? '');
+  const [nudgeInterval, setNudgeInterval] = useState(circuit.nudgeIntervalMinutes?.toString() ?? '');
+  const [pinnedSuggestions, setPinnedSuggestions] = useState((circuit.pinnedSuggestions as string[]).join('\n'));
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (settings: CircuitChatSettings) => {
+      const response = await apiRequest('PUT', `/api/wisdom-circuits/${circuit.id}/chat-settings`, settings);
+      return response.json();
+    },
+    onSuccess: (updatedCircuit: WisdomCircuit) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wisdom-circuits'] });
+      onCircuitUpdated(updatedCircuit);
+      toast({
+        title: 'Success',
+        description: 'Chat settings saved',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const saveSettings = (changes: Partial<CircuitChatSettings> = {}) => {
+    updateSettingsMutation.mutate({
+      welcomeMessage: welcomeMessage.trim() || null,
+      nudgesEnabled: circuit.nudgesEnabled,
+      nudgeIntervalMinutes: nudgeInterval ? parseInt(nudgeInterval) : null,
+      nudgeMessage: nudgeMessage.trim() || null,
+      pinnedSuggestions: pinnedSuggestions.split('\n').map(text => text.trim()).filter(Boolean),
+      ...changes,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold">Chat Greeting & Suggestions</h3>
+        <p className="text-sm text-gray-600">
+          What the tutor says when a student opens a chat and when they go quiet, and the questions suggested to them. Use {'{name}'} for the student's name.
+        </p>
+      </div>
+      <div className="border rounded-lg p-4 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="welcome-message">Welcome message</Label>
+          <Textarea
+            id="welcome-message"
+            value={welcomeMessage}
+            onChange={(e) => setWelcomeMessage(e.target.value)}
+            placeholder={defaults.welcomeMessage}
+            rows={2}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="nudges-enabled">Check in on quiet students</Label>
+          <Switch
+            id="nudges-enabled"
+            checked={circuit.nudgesEnabled}
+            disabled={updateSettingsMutation.isPending}
+            onCheckedChange={(checked) => saveSettings({ nudgesEnabled: checked })}
+          />
+        </div>
+        {circuit.nudgesEnabled && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="nudge-interval">Minutes before checking in</Label>
+              <Input
+                id="nudge-interval"
+                type="number"
+                min={1}
+                max={60}
+                value={nudgeInterval}
+                onChange={(e) => setNudgeInterval(e.target.value)}
+                placeholder={defaults.nudgeIntervalMinutes.toString()}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="nudge-message">Check-in message</Label>
+              <Textarea
+                id="nudge-message"
+                value={nudgeMessage}
+                onChange={(e) => setNudgeMessage(e.target.value)}
+                placeholder={defaults.nudgeMessage}
+                rows={2}
+              />
+            </div>
+          </>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="pinned-suggestions">Pinned suggestions</Label>
+          <Textarea
+            id="pinned-suggestions"
+            value={pinnedSuggestions}
+            onChange={(e) => setPinnedSuggestions(e.target.value)}
+            placeholder="One per line, shown first above the chat box"
+            rows={3}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            disabled={updateSettingsMutation.isPending}
+            onClick={() => saveSettings()}
+          >
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
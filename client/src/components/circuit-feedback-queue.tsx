@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { type MessageFeedbackEntry } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { format } from "date-fns";
+
+interface CircuitFeedbackQueueProps {
+  circuitId: number;
+  canCorrect: boolean; // teaching assistants can dismiss feedback but not change answers
+}
+
+export function CircuitFeedbackQueue({ circuitId, canCorrect }: CircuitFeedbackQueueProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<'open' | 'resolved'>('open');
+  const [correctingId, setCorrectingId] = useState<number | null>(null);
+  const [correction, setCorrection] = useState('');
+  const queueUrl = `/api/wisdom-circuits/${circuitId}/feedback-queue`;
+
+  const { data: queue = [] } = useQuery<MessageFeedbackEntry[]>({
+    queryKey: [`${queueUrl}?status=${status}`],
+    staleTime: 1000,
+  });
+
+  const refreshQueue = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(queueUrl),
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const correctAnswerMutation = useMutation({
+    mutationFn: async ({ feedbackId, answer }: { feedbackId: number; answer: string }) => {
+      const response = await apiRequest('POST', `/api/message-feedback/${feedbackId}/correction`, { answer });
+      return response.json();
+    },
+    onSuccess: () => {
+      setCorrectingId(null);
+      setCorrection('');
+      refreshQueue();
+      toast({
+        title: 'Success',
+        description: 'The tutor will use your answer for similar questions',
+      });
+    },
+    onError,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (feedbackId: number) => {
+      const response = await apiRequest('POST', `/api/message-feedback/${feedbackId}/dismiss`);
+      return response.json();
+    },
+    onSuccess: refreshQueue,
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Student Feedback</CardTitle>
+          <p className="text-sm text-gray-600">
+            Tutor answers students rated down or reported as wrong.
+          </p>
+        </div>
+        <Tabs value={status} onValueChange={(value) => setStatus(value as 'open' | 'resolved')}>
+          <TabsList>
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="resolved">Resolved</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {queue.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">
+            {status === 'open' ? 'No answers waiting for review.' : 'Nothing resolved yet.'}
+          </p>
+        )}
+        {queue.map((entry) => (
+          <div key={entry.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{entry.student.displayName || entry.student.email}</span>
+                {entry.reported && <Badge variant="destructive">Reported</Badge>}
+                {entry.rating === 'down' && <Badge variant="secondary">Not helpful</Badge>}
+                <span className="text-sm text-gray-500">{format(new Date(entry.updatedAt), 'PP p')}</span>
+              </div>
+              {!entry.resolvedAt && (
+                <div className="flex items-center gap-1">
+                  {canCorrect && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setCorrectingId(entry.id);
+                        setCorrection('');
+                      }}
+                    >
+                      Correct
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={dismissMutation.isPending}
+                    onClick={() => dismissMutation.mutate(entry.id)}
+                  >
+                    Dismiss
+                  </Button>
+                </div>
+              )}
+            </div>
+            {entry.question && (
+              <div>
+                <div className="text-sm font-semibold">Question</div>
+                <p className="text-sm whitespace-pre-wrap">{entry.question}</p>
+              </div>
+            )}
+            <div>
+              <div className="text-sm font-semibold">Tutor's answer</div>
+              <p className="text-sm whitespace-pre-wrap bg-muted/50 rounded p-2">{entry.answer}</p>
+            </div>
+            {entry.comment && (
+              <p className="text-sm italic text-gray-600">"{entry.comment}"</p>
+            )}
+            {entry.correction && (
+              <div>
+                <div className="text-sm font-semibold">Corrected answer</div>
+                <p className="text-sm whitespace-pre-wrap bg-green-50 border border-green-200 rounded p-2">{entry.correction.answer}</p>
+              </div>
+            )}
+            {correctingId === entry.id && (
+              <div className="space-y-2">
+                <Textarea
+                  value={correction}
+                  onChange={(e) => setCorrection(e.target.value)}
+                  placeholder="The answer the tutor should give to questions like this"
+                  rows={4}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setCorrectingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={!correction.trim() || correctAnswerMutation.isPending}
+                    onClick={() => correctAnswerMutation.mutate({ feedbackId: entry.id, answer: correction })}
+                  >
+                    Save Correction
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { type CircuitContent, type FlashcardDeckWithCards } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Loader2, Trash2 } from "lucide-react";
+
+interface CircuitFlashcardsProps {
+  circuitId: number;
+  content: CircuitContent[];
+}
+
+export function CircuitFlashcards({ circuitId, content }: CircuitFlashcardsProps) {
+  const { toast } = useToast();
+  const [deckTitle, setDeckTitle] = useState('');
+  const [generateFrom, setGenerateFrom] = useState('all');
+  // The card being written for each deck, keyed by deck ID
+  const [drafts, setDrafts] = useState<Record<number, { front: string; back: string }>>({});
+  const decksUrl = `/api/wisdom-circuits/${circuitId}/flashcard-decks`;
+
+  const { data: decks = [] } = useQuery<FlashcardDeckWithCards[]>({
+    queryKey: [decksUrl],
+  });
+
+  const refreshDecks = () => {
+    queryClient.invalidateQueries({ queryKey: [decksUrl] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const createDeckMutation = useMutation({
+    mutationFn: async (title: string) => {
+      const response = await apiRequest('POST', decksUrl, { title });
+      return response.json();
+    },
+    onSuccess: () => {
+      setDeckTitle('');
+      refreshDecks();
+    },
+    onError,
+  });
+
+  const generateDeckMutation = useMutation({
+    mutationFn: async (contentId: number | undefined) => {
+      const response = await apiRequest('POST', `${decksUrl}/generate`, { contentId });
+      return response.json();
+    },
+    onSuccess: (deck: FlashcardDeckWithCards) => {
+      refreshDecks();
+      toast({
+        title: 'Success',
+        description: `Generated ${deck.cards.length} flashcards`,
+      });
+    },
+    onError,
+  });
+
+  const deleteDeckMutation = useMutation({
+    mutationFn: async (deckId: number) => {
+      const response = await apiRequest('DELETE', `/api/flashcard-decks/${deckId}`);
+      return response.json();
+    },
+    onSuccess: refreshDecks,
+    onError,
+  });
+
+  const addCardMutation = useMutation({
+    mutationFn: async ({ deckId, front, back }: { deckId: number; front: string; back: string }) => {
+      const response = await apiRequest('POST', `/api/flashcard-decks/${deckId}/cards`, { front, back });
+      return response.json();
+    },
+    onSuccess: (_card, { deckId }) => {
+      setDrafts({ ...drafts, [deckId]: { front: '', back: '' } });
+      refreshDecks();
+    },
+    onError,
+  });
+
+  const deleteCardMutation = useMutation({
+    mutationFn: async (cardId: number) => {
+      const response = await apiRequest('DELETE', `/api/flashcards/${cardId}`);
+      return response.json();
+    },
+    onSuccess: refreshDecks,
+    onError,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold">Flashcards</h3>
+        <p className="text-sm text-gray-600">
+          Students review these from their dashboard. Each card comes back on a schedule that depends on how well they remembered it.
+        </p>
+      </div>
+      <div className="border rounded-lg p-4 space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={deckTitle}
+            onChange={(e) => setDeckTitle(e.target.value)}
+            placeholder="New deck title"
+            maxLength={100}
+          />
+          <Button
+            disabled={!deckTitle.trim() || createDeckMutation.isPending}
+            onClick={() => createDeckMutation.mutate(deckTitle)}
+          >
+            Create Deck
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Select value={generateFrom} onValueChange={setGenerateFrom}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All uploaded content</SelectItem>
+              {content.map((item) => (
+                <SelectItem key={item.id} value={item.id.toString()}>{item.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            disabled={content.length === 0 || generateDeckMutation.isPending}
+            onClick={() => generateDeckMutation.mutate(generateFrom === 'all' ? undefined : parseInt(generateFrom))}
+          >
+            {generateDeckMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Generate Deck
+          </Button>
+        </div>
+
+        {decks.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">No flashcard decks yet.</p>
+        )}
+        {decks.map((deck) => {
+          const draft = drafts[deck.id] ?? { front: '', back: '' };
+
+          return (
+            <Collapsible key={deck.id} className="border rounded-lg">
+              <div className="flex items-center justify-between p-3">
+                <CollapsibleTrigger className="flex items-center gap-2 font-medium">
+                  <ChevronDown className="h-4 w-4" />
+                  {deck.title}
+                  <Badge variant="secondary">{deck.cards.length} cards</Badge>
+                </CollapsibleTrigger>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={deleteDeckMutation.isPending}
+                  onClick={() => deleteDeckMutation.mutate(deck.id)}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+              <CollapsibleContent className="border-t p-3 space-y-2">
+                {deck.cards.map((card) => (
+                  <div key={card.id} className="grid grid-cols-12 gap-2 items-start text-sm hover:bg-muted/50 rounded p-2">
+                    <div className="col-span-4 font-medium whitespace-pre-wrap">{card.front}</div>
+                    <div className="col-span-7 text-gray-600 whitespace-pre-wrap">{card.back}</div>
+                    <div className="col-span-1 flex justify-end">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleteCardMutation.isPending}
+                        onClick={() => deleteCardMutation.mutate(card.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <div className="grid grid-cols-12 gap-2 pt-2">
+                  <Input
+                    className="col-span-4"
+                    value={draft.front}
+                    onChange={(e) => setDrafts({ ...drafts, [deck.id]: { ...draft, front: e.target.value } })}
+                    placeholder="Front"
+                  />
+                  <Textarea
+                    className="col-span-6 min-h-[40px]"
+                    value={draft.back}
+                    onChange={(e) => setDrafts({ ...drafts, [deck.id]: { ...draft, back: e.target.value } })}
+                    placeholder="Back"
+                    rows={1}
+                  />
+                  <Button
+                    className="col-span-2"
+                    size="sm"
+                    disabled={!draft.front.trim() || !draft.back.trim() || addCardMutation.isPending}
+                    onClick={() => addCardMutation.mutate({ deckId: deck.id, ...draft })}
+                  >
+                    Add Card
+                  </Button>
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
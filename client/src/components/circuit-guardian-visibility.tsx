@@ -0,0 +1,82 @@
+import { useMutation } from "@tanstack/react-query";
+import { type WisdomCircuit, type GuardianVisibility } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface CircuitGuardianVisibilityProps {
+  circuit: WisdomCircuit;
+  onCircuitUpdated: (circuit: WisdomCircuit) => void;
+}
+
+export function CircuitGuardianVisibility({ circuit, onCircuitUpdated }: CircuitGuardianVisibilityProps) {
+  const { toast } = useToast();
+
+  const updateVisibilityMutation = useMutation({
+    mutationFn: async (visibility: GuardianVisibility) => {
+      const response = await apiRequest('PUT', `/api/wisdom-circuits/${circuit.id}/guardian-visibility`, visibility);
+      return response.json();
+    },
+    onSuccess: (updatedCircuit: WisdomCircuit) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wisdom-circuits'] });
+      onCircuitUpdated(updatedCircuit);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleChange = (changes: Partial<GuardianVisibility>) => {
+    updateVisibilityMutation.mutate({
+      guardianShowCircuit: circuit.guardianShowCircuit,
+      guardianShowUsage: circuit.guardianShowUsage,
+      guardianShowSummaries: circuit.guardianShowSummaries,
+      ...changes,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold">Parent & Guardian Access</h3>
+        <p className="text-sm text-gray-600">
+          Choose what linked parents and guardians can see on their read-only dashboard.
+        </p>
+      </div>
+      <div className="border rounded-lg p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="guardian-show-circuit">Show this circuit to guardians</Label>
+          <Switch
+            id="guardian-show-circuit"
+            checked={circuit.guardianShowCircuit}
+            disabled={updateVisibilityMutation.isPending}
+            onCheckedChange={(checked) => handleChange({ guardianShowCircuit: checked })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="guardian-show-usage">Show weekly usage</Label>
+          <Switch
+            id="guardian-show-usage"
+            checked={circuit.guardianShowUsage}
+            disabled={!circuit.guardianShowCircuit || updateVisibilityMutation.isPending}
+            onCheckedChange={(checked) => handleChange({ guardianShowUsage: checked })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="guardian-show-summaries">Show conversation topics</Label>
+          <Switch
+            id="guardian-show-summaries"
+            checked={circuit.guardianShowSummaries}
+            disabled={!circuit.guardianShowCircuit || updateVisibilityMutation.isPending}
+            onCheckedChange={(checked) => handleChange({ guardianShowSummaries: checked })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useMutation } from "@tanstack/react-query";
+import { type WisdomCircuit, type CircuitJoinSettings } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface CircuitJoinApprovalProps {
+  circuit: WisdomCircuit;
+  onCircuitUpdated: (circuit: WisdomCircuit) => void;
+}
+
+export function CircuitJoinApproval({ circuit, onCircuitUpdated }: CircuitJoinApprovalProps) {
+  const { toast } = useToast();
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (settings: CircuitJoinSettings) => {
+      const response = await apiRequest('PUT', `/api/wisdom-circuits/${circuit.id}/join-settings`, settings);
+      return response.json();
+    },
+    onSuccess: (updatedCircuit: WisdomCircuit) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wisdom-circuits'] });
+      onCircuitUpdated(updatedCircuit);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="border rounded-lg p-4 flex items-center justify-between gap-4">
+      <div>
+        <Label htmlFor="require-approval">Require approval to join</Label>
+        <p className="text-sm text-gray-600">
+          Students who use a join code wait in your join requests until you approve them.
+        </p>
+      </div>
+      <Switch
+        id="require-approval"
+        checked={circuit.requireApproval}
+        disabled={updateSettingsMutation.isPending}
+        onCheckedChange={(checked) => updateSettingsMutation.mutate({ requireApproval: checked })}
+      />
+    </div>
+  );
+}
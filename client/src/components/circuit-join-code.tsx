@@ -0,0 +1,242 @@
+import { useId, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { type CircuitCodeSettings } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Copy, Printer, QrCode, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+
+// Circuits and their sections share the same join code columns
+interface JoinCodeFields {
+  code: string;
+  codeExpiresAt: Date | null;
+  codeMaxUses: number | null;
+  codeUseCount: number;
+}
+
+interface CircuitJoinCodeProps<T extends JoinCodeFields> {
+  label: string;
+  title: string;
+  teacherName: string;
+  joinCode: T;
+  // Accepts PUT for the settings and POST to /regenerate for a new code
+  codeUrl: string;
+  onUpdated: (joinCode: T) => void;
+}
+
+function getJoinLink(code: string) {
+  return `${window.location.origin}/?join=${encodeURIComponent(code)}`;
+}
+
+export function CircuitJoinCode<T extends JoinCodeFields>({
+  label,
+  title,
+  teacherName,
+  joinCode,
+  codeUrl,
+  onUpdated,
+}: CircuitJoinCodeProps<T>) {
+  const { toast } = useToast();
+  const [showQrDialog, setShowQrDialog] = useState(false);
+  const [expiresAt, setExpiresAt] = useState(
+    joinCode.codeExpiresAt ? format(new Date(joinCode.codeExpiresAt), 'yyyy-MM-dd') : ''
+  );
+  const [maxUses, setMaxUses] = useState(joinCode.codeMaxUses?.toString() ?? '');
+  const printableRef = useRef<HTMLDivElement>(null);
+  const fieldId = useId();
+
+  const joinLink = getJoinLink(joinCode.code);
+  const isExpired = !!joinCode.codeExpiresAt && new Date(joinCode.codeExpiresAt) < new Date();
+  const isFull = joinCode.codeMaxUses !== null && joinCode.codeUseCount >= joinCode.codeMaxUses;
+
+  const regenerateCodeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${codeUrl}/regenerate`);
+      return response.json();
+    },
+    onSuccess: (updated: T) => {
+      onUpdated(updated);
+      toast({
+        title: 'Success',
+        description: 'New code generated. The old code no longer works.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (settings: CircuitCodeSettings) => {
+      const response = await apiRequest('PUT', codeUrl, settings);
+      return response.json();
+    },
+    onSuccess: (updated: T) => {
+      onUpdated(updated);
+      toast({
+        title: 'Success',
+        description: 'Code settings saved',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSaveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateSettingsMutation.mutate({
+      // Expire at the end of the chosen day rather than at midnight
+      codeExpiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`) : null,
+      codeMaxUses: maxUses ? parseInt(maxUses) : null,
+    });
+  };
+
+  const handleCopy = async (text: string, description: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description,
+      });
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow || !printableRef.current) {
+      return;
+    }
+    // The circuit name is set as text below; only the serialized card markup is written as HTML
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+  <head>
+    <title></title>
+    <style>
+      body { font-family: sans-serif; display: flex; flex-direction: column; align-items: center; padding: 48px; text-align: center; }
+      h1 { margin-bottom: 8px; }
+      .code { font-size: 48px; font-weight: bold; letter-spacing: 8px; margin: 24px 0 8px; }
+    </style>
+  </head>
+  <body>${printableRef.current.innerHTML}</body>
+</html>`);
+    printWindow.document.close();
+    printWindow.document.title = `Join ${title}`;
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div className="space-y-4 bg-muted/50 p-4 rounded-lg">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{label}: {joinCode.code}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleCopy(joinCode.code, "Code copied to clipboard")}
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          {(isExpired || isFull) && (
+            <span className="text-xs px-2 py-1 rounded bg-red-100 text-red-700">
+              {isExpired ? 'Expired' : 'Join limit reached'}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setShowQrDialog(true)}>
+            <QrCode className="h-4 w-4 mr-1" />
+            QR Code
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => regenerateCodeMutation.mutate()}
+            disabled={regenerateCodeMutation.isPending}
+          >
+            <RefreshCw className={`h-4 w-4 mr-1 ${regenerateCodeMutation.isPending ? 'animate-spin' : ''}`} />
+            New Code
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        {joinCode.codeUseCount} {joinCode.codeUseCount === 1 ? 'student has' : 'students have'} joined with this code
+        {joinCode.codeMaxUses !== null && ` (limit ${joinCode.codeMaxUses})`}
+        {joinCode.codeExpiresAt && `, valid until ${format(new Date(joinCode.codeExpiresAt), 'PP')}`}.
+      </p>
+
+      <form onSubmit={handleSaveSettings} className="grid grid-cols-3 gap-4 items-end">
+        <div>
+          <Label htmlFor={`${fieldId}-expires-at`}>Expires On</Label>
+          <Input
+            id={`${fieldId}-expires-at`}
+            type="date"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${fieldId}-max-uses`}>Maximum Joins</Label>
+          <Input
+            id={`${fieldId}-max-uses`}
+            type="number"
+            min={1}
+            placeholder="Unlimited"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+          />
+        </div>
+        <Button type="submit" variant="outline" disabled={updateSettingsMutation.isPending}>
+          Save Code Settings
+        </Button>
+      </form>
+
+      <Dialog open={showQrDialog} onOpenChange={setShowQrDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Join {title}</DialogTitle>
+            <DialogDescription>
+              Students can scan this code or visit the link to join.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div ref={printableRef} className="flex flex-col items-center gap-2 py-4 text-center">
+            <h1 className="text-xl font-bold">{title}</h1>
+            <p className="text-sm text-gray-600">with {teacherName}</p>
+            <QRCodeSVG value={joinLink} size={220} className="my-4" />
+            <div className="code text-3xl font-bold tracking-widest">{joinCode.code}</div>
+            <p className="text-sm text-gray-600 break-all">{joinLink}</p>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => handleCopy(joinLink, "Join link copied to clipboard")}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy Link
+            </Button>
+            <Button onClick={handlePrint}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { type LiveChatEvent, type PublicMessage, type Transcript, type TranscriptPage } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useLiveChat } from "@/hooks/use-live-chat";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Send } from "lucide-react";
+import { format, subMinutes } from "date-fns";
+
+interface CircuitLiveChatsProps {
+  circuitId: number;
+}
+
+// Conversations with a message in this window count as active
+const ACTIVE_WINDOW_MINUTES = 30;
+
+function speakerName(message: PublicMessage, transcript: Transcript) {
+  if (message.role === 'user') return transcript.student.displayName || transcript.student.email;
+  if (message.role === 'teacher') return message.authorName ?? 'Teacher';
+  return 'Tutor';
+}
+
+export function CircuitLiveChats({ circuitId }: CircuitLiveChatsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [activeSince] = useState(() => subMinutes(new Date(), ACTIVE_WINDOW_MINUTES).toISOString());
+  const [selectedConversationId, setSelectedConversationId] = useState<number | null>(null);
+  const [reply, setReply] = useState('');
+  const transcriptsUrl = `/api/wisdom-circuits/${circuitId}/transcripts`;
+  const activeUrl = `${transcriptsUrl}?from=${encodeURIComponent(activeSince)}&pageSize=50`;
+  const selectedUrl = `${transcriptsUrl}/${selectedConversationId}`;
+
+  const { data: active } = useQuery<TranscriptPage>({
+    queryKey: [activeUrl],
+    staleTime: 1000,
+  });
+
+  const { data: transcript } = useQuery<Transcript>({
+    queryKey: [selectedUrl],
+    enabled: selectedConversationId !== null,
+    staleTime: 1000,
+  });
+
+  const { send, isConnected } = useLiveChat({
+    enabled: true,
+    subscriptions: [{ type: 'watch', circuitId }],
+    onEvent: (event: LiveChatEvent) => {
+      if (event.type === 'error') {
+        toast({
+          title: 'Error',
+          description: event.error,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      if (event.conversationId === selectedConversationId) {
+        queryClient.setQueryData<Transcript>([selectedUrl], (current) => {
+          if (!current) return current;
+          if (event.type === 'takeover') {
+            return { ...current, takenOverBy: event.teacherId };
+          }
+          // Skip anything already loaded with the transcript
+          if (current.messages.some(message => message.id === event.message.id)) return current;
+          return { ...current, messages: [...current.messages, event.message] };
+        });
+      }
+
+      // Keeps the list's order, message counts and takeover badges current
+      queryClient.invalidateQueries({ queryKey: [activeUrl] });
+    },
+  });
+
+  const sendReply = () => {
+    if (!selectedConversationId || !reply.trim()) return;
+    if (send({ type: 'message', conversationId: selectedConversationId, content: reply.trim() })) {
+      setReply('');
+    }
+  };
+
+  const isMine = transcript?.takenOverBy === user?.id;
+
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      <Card className="col-span-1">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Active Chats
+            <span className={`h-2 w-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-gray-300'}`} title={isConnected ? 'Live' : 'Connecting...'} />
+          </CardTitle>
+          <p className="text-sm text-gray-600">Student chats from the last {ACTIVE_WINDOW_MINUTES} minutes.</p>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {active?.conversations.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No one is chatting right now.</p>
+          )}
+          {active?.conversations.map((conversation) => (
+            <button
+              key={conversation.id}
+              className={`w-full text-left border rounded-lg p-2 text-sm hover:bg-muted/50 ${conversation.id === selectedConversationId ? 'border-primary' : ''}`}
+              onClick={() => setSelectedConversationId(conversation.id)}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{conversation.student.displayName || conversation.student.email}</span>
+                {conversation.takenOverBy && <Badge variant="secondary">Teacher</Badge>}
+              </div>
+              <div className="text-gray-500 truncate">{conversation.title}</div>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="col-span-2">
+        {!transcript ? (
+          <CardContent className="py-12 text-center text-sm text-gray-500">
+            Pick a chat to follow it as it happens.
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>{transcript.title}</CardTitle>
+                <p className="text-sm text-gray-600">{transcript.student.displayName || transcript.student.email}</p>
+              </div>
+              {isMine ? (
+                <Button variant="outline" size="sm" onClick={() => send({ type: 'release', conversationId: transcript.id })}>
+                  Hand Back to Tutor
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  disabled={!isConnected || !!transcript.takenOverBy}
+                  onClick={() => send({ type: 'takeover', conversationId: transcript.id })}
+                >
+                  {transcript.takenOverBy ? 'Another Teacher Joined' : 'Join Chat'}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-2 max-h-[45vh] overflow-y-auto">
+                {transcript.messages.map((message) => message.role === 'event' ? (
+                  <p key={message.id} className="text-center text-xs italic text-gray-500">{message.content}</p>
+                ) : (
+                  <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-start' : 'justify-end'}`}>
+                    <div className={`max-w-[80%] rounded-lg p-2 text-sm ${
+                      message.role === 'user'
+                        ? 'bg-muted'
+                        : message.role === 'teacher'
+                          ? 'bg-amber-50 border border-amber-300'
+                          : 'bg-blue-50 border border-blue-200'
+                    }`}>
+                      <div className="text-xs font-medium text-gray-600">
+                        {speakerName(message, transcript)} · {format(new Date(message.createdAt), 'p')}
+                      </div>
+                      {message.attachmentType && (
+                        <a href={`/api/messages/${message.id}/attachment`} target="_blank" rel="noopener noreferrer">
+                          <img src={`/api/messages/${message.id}/attachment`} alt="Attached by the student" className="max-h-40 rounded mt-1" />
+                        </a>
+                      )}
+                      <p className="whitespace-pre-wrap">{message.content}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {isMine && (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    sendReply();
+                  }}
+                >
+                  <Input
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder="The tutor is paused while you reply"
+                  />
+                  <Button type="submit" disabled={!reply.trim() || !isConnected}>
+                    <Send className="h-4 w-4" />
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
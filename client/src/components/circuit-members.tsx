@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { type WisdomCircuit, type CircuitMemberEntry, type InsertCircuitMember } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserMinus, UserPlus } from "lucide-react";
+
+interface CircuitMembersProps {
+  circuit: WisdomCircuit;
+}
+
+type MemberRole = InsertCircuitMember['role'];
+
+const ROLE_LABELS: Record<MemberRole, string> = {
+  'co-teacher': 'Co-Teacher',
+  'ta': 'Teaching Assistant (reports only)',
+};
+
+export function CircuitMembers({ circuit }: CircuitMembersProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberRole>('co-teacher');
+  const membersKey = [`/api/wisdom-circuits/${circuit.id}/members`];
+  const isOwner = circuit.teacherId === user?.id;
+
+  const { data: members = [] } = useQuery<CircuitMemberEntry[]>({
+    queryKey: membersKey,
+    staleTime: 1000,
+  });
+
+  const saveMemberMutation = useMutation({
+    mutationFn: async (member: { email: string; role: MemberRole }) => {
+      const response = await apiRequest('POST', `/api/wisdom-circuits/${circuit.id}/members`, member);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      setEmail('');
+      toast({
+        title: 'Success',
+        description: 'Circuit member saved',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest('DELETE', `/api/wisdom-circuits/${circuit.id}/members/${userId}`);
+      return response.json();
+    },
+    onSuccess: (_data, userId) => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      // Leaving a circuit removes it from this teacher's dashboard
+      if (userId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: ['/api/wisdom-circuits'] });
+      }
+      toast({
+        title: 'Success',
+        description: 'Circuit member removed',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMemberMutation.mutate({ email, role });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold">Circuit Teachers</h3>
+        <p className="text-sm text-gray-600">
+          Co-teachers can manage content, settings and the roster. Teaching assistants can only view reports.
+        </p>
+      </div>
+
+      <div className="border rounded-lg p-3 space-y-2">
+        <div className="flex items-center justify-between p-2">
+          <div>
+            <div className="font-medium">{circuit.teacherName}</div>
+            <div className="text-sm text-gray-500">Owner</div>
+          </div>
+        </div>
+        {members.map((member) => (
+          <div key={member.id} className="flex items-center justify-between hover:bg-muted/50 rounded-lg p-2">
+            <div>
+              <div className="font-medium">{member.user.displayName || member.user.email}</div>
+              <div className="text-sm text-gray-500">
+                {ROLE_LABELS[member.role as MemberRole]} · {member.user.email}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {isOwner && (
+                <Select
+                  value={member.role}
+                  onValueChange={(value) => saveMemberMutation.mutate({ email: member.user.email, role: value as MemberRole })}
+                >
+                  <SelectTrigger className="h-8 w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="co-teacher">Co-Teacher</SelectItem>
+                    <SelectItem value="ta">Teaching Assistant</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {(isOwner || member.userId === user?.id) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title={member.userId === user?.id ? 'Leave circuit' : 'Remove member'}
+                  onClick={() => removeMemberMutation.mutate(member.userId)}
+                >
+                  <UserMinus className="h-4 w-4 text-destructive" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isOwner && (
+        <form onSubmit={handleAddMember} className="flex gap-2">
+          <Input
+            type="email"
+            placeholder="Teacher's email address"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as MemberRole)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="co-teacher">Co-Teacher</SelectItem>
+              <SelectItem value="ta">Teaching Assistant</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={saveMemberMutation.isPending}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { type ModerationFlagEntry } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Check } from "lucide-react";
+import { format } from "date-fns";
+
+interface CircuitModerationFlagsProps {
+  circuitId: number;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  allowed: 'Allowed',
+  softened: 'Softened',
+  blocked: 'Blocked',
+};
+
+export function CircuitModerationFlags({ circuitId }: CircuitModerationFlagsProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<'open' | 'reviewed'>('open');
+  const flagsUrl = `/api/wisdom-circuits/${circuitId}/moderation-flags`;
+
+  const { data: flags = [] } = useQuery<ModerationFlagEntry[]>({
+    queryKey: [`${flagsUrl}?status=${status}`],
+    staleTime: 1000,
+  });
+
+  const reviewFlagMutation = useMutation({
+    mutationFn: async (flagId: number) => {
+      const response = await apiRequest('POST', `/api/moderation-flags/${flagId}/review`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(flagsUrl),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Content Safety Flags</CardTitle>
+          <p className="text-sm text-gray-600">
+            Student messages and tutor replies caught by the content filter.
+          </p>
+        </div>
+        <Tabs value={status} onValueChange={(value) => setStatus(value as 'open' | 'reviewed')}>
+          <TabsList>
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="reviewed">Reviewed</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {flags.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">
+            {status === 'open' ? 'Nothing to review.' : 'No reviewed flags yet.'}
+          </p>
+        )}
+        {flags.map((flag) => (
+          <div key={flag.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{flag.student.displayName || flag.student.email}</span>
+                <Badge variant={flag.severity === 'high' ? 'destructive' : 'secondary'}>
+                  {ACTION_LABELS[flag.action] ?? flag.action}
+                </Badge>
+                {(flag.categories as string[]).map((category) => (
+                  <Badge key={category} variant="outline">{category}</Badge>
+                ))}
+                <span className="text-sm text-gray-500">
+                  {flag.source === 'student' ? 'Student message' : 'Tutor reply'} · {format(new Date(flag.createdAt), 'PP p')}
+                </span>
+              </div>
+              {!flag.reviewedAt && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Mark reviewed"
+                  disabled={reviewFlagMutation.isPending}
+                  onClick={() => reviewFlagMutation.mutate(flag.id)}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <p className="text-sm whitespace-pre-wrap bg-muted/50 rounded p-2">{flag.content}</p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
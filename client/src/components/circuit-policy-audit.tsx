@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query";
+import { type PolicyInterventionReport } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { format } from "date-fns";
+
+interface CircuitPolicyAuditProps {
+  circuitId: number;
+}
+
+export function CircuitPolicyAudit({ circuitId }: CircuitPolicyAuditProps) {
+  const { data: report } = useQuery<PolicyInterventionReport>({
+    queryKey: [`/api/wisdom-circuits/${circuitId}/policy-interventions`],
+    staleTime: 1000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Homework Policy Enforcement</CardTitle>
+        <p className="text-sm text-gray-600">
+          Replies the tutor drafted with a direct solution, and what students were sent instead.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-muted/50 p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold">{report?.thisWeek ?? '-'}</div>
+            <div className="text-sm text-gray-600">This Week</div>
+          </div>
+          <div className="bg-muted/50 p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold">{report?.total ?? '-'}</div>
+            <div className="text-sm text-gray-600">All Time</div>
+          </div>
+        </div>
+
+        {report && report.interventions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">The guardrail hasn't had to step in yet.</p>
+        ) : (
+          <Accordion type="single" collapsible>
+            {report?.interventions.map((intervention) => (
+              <AccordionItem key={intervention.id} value={intervention.id.toString()}>
+                <AccordionTrigger>
+                  <div className="flex items-center gap-2 text-left">
+                    <span className="font-medium">
+                      {intervention.student.displayName || intervention.student.email}
+                    </span>
+                    <Badge variant={intervention.action === 'rewritten' ? 'secondary' : 'outline'}>
+                      {intervention.action === 'rewritten' ? 'Rewritten' : 'Replaced'}
+                    </Badge>
+                    <span className="text-sm text-gray-500">
+                      {format(new Date(intervention.createdAt), 'PP p')}
+                    </span>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-3">
+                  <p className="text-sm text-gray-600">{intervention.reason}</p>
+                  <div>
+                    <div className="text-sm font-semibold">Original draft</div>
+                    <p className="text-sm whitespace-pre-wrap bg-muted/50 rounded p-2">{intervention.originalResponse}</p>
+                  </div>
+                  <div>
+                    <div className="text-sm font-semibold">Sent to student</div>
+                    <p className="text-sm whitespace-pre-wrap bg-muted/50 rounded p-2">{intervention.finalResponse}</p>
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import { type QuizItem, type QuizResultEntry } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+
+interface CircuitQuizResultsProps {
+  circuitId: number;
+}
+
+// Multiple choice answers are stored as the option's index
+function describeAnswer(item: QuizItem, answer: string | null): string {
+  if (answer === null) return '';
+  return item.type === 'multiple_choice' ? (item.choices as string[])[parseInt(answer)] ?? answer : answer;
+}
+
+export function CircuitQuizResults({ circuitId }: CircuitQuizResultsProps) {
+  const { data: results = [] } = useQuery<QuizResultEntry[]>({
+    queryKey: [`/api/wisdom-circuits/${circuitId}/quiz-results`],
+    staleTime: 1000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Practice Quizzes</CardTitle>
+        <p className="text-sm text-gray-600">
+          Quizzes students took in the chat, with the questions they missed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {results.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">No practice quizzes yet.</p>
+        )}
+        {results.map((quiz) => {
+          const answered = quiz.items.filter(item => item.answeredAt);
+          const missed = answered.filter(item => !item.isCorrect);
+
+          return (
+            <div key={quiz.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{quiz.student.displayName || quiz.student.email}</span>
+                <Badge variant={missed.length === 0 ? 'secondary' : 'outline'}>
+                  {answered.length - missed.length} / {quiz.items.length} correct
+                </Badge>
+                {!quiz.completedAt && <Badge variant="outline">Unfinished</Badge>}
+                {quiz.topic && <span className="text-sm text-gray-600">{quiz.topic}</span>}
+                <span className="text-sm text-gray-500">{format(new Date(quiz.createdAt), 'PP p')}</span>
+              </div>
+              {missed.map((item) => (
+                <div key={item.id} className="rounded bg-red-50 p-2 text-sm space-y-1">
+                  <p className="whitespace-pre-wrap">{item.question}</p>
+                  <p>
+                    <span className="font-semibold">Answered: </span>
+                    {describeAnswer(item, item.studentAnswer)}
+                  </p>
+                  <p>
+                    <span className="font-semibold">Expected: </span>
+                    {describeAnswer(item, item.answer)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { type CircuitReport, type CircuitSection } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface CircuitReportSummaryProps {
+  circuitId: number;
+}
+
+export function CircuitReportSummary({ circuitId }: CircuitReportSummaryProps) {
+  const [sectionFilter, setSectionFilter] = useState('all');
+  const reportUrl = `/api/wisdom-circuits/${circuitId}/report`;
+
+  const { data: sections = [] } = useQuery<CircuitSection[]>({
+    queryKey: [`/api/wisdom-circuits/${circuitId}/sections`],
+    staleTime: 1000,
+  });
+
+  const { data: report } = useQuery<CircuitReport>({
+    queryKey: [sectionFilter === 'all' ? reportUrl : `${reportUrl}?sectionId=${sectionFilter}`],
+    staleTime: 1000,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Weekly Activity Summary</CardTitle>
+        {sections.length > 0 && (
+          <Select value={sectionFilter} onValueChange={setSectionFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Filter by section" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Sections</SelectItem>
+              {sections.map((section) => (
+                <SelectItem key={section.id} value={section.id.toString()}>
+                  {section.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-muted/50 p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold">{report?.enrolledStudents ?? '-'}</div>
+            <div className="text-sm text-gray-600">Enrolled Students</div>
+          </div>
+          <div className="bg-muted/50 p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold">{report?.activeStudents ?? '-'}</div>
+            <div className="text-sm text-gray-600">Active Students</div>
+          </div>
+          <div className="bg-muted/50 p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold">{report?.newContent ?? '-'}</div>
+            <div className="text-sm text-gray-600">New Contents</div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
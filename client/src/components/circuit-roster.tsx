@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { type RosterEntry, type CircuitSection } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GuardianInviteDialog } from "@/components/guardian-invite-dialog";
+import { Ban, Loader2, RotateCcw, UserMinus, Users } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface CircuitRosterProps {
+  circuitId: number;
+}
+
+export function CircuitRoster({ circuitId }: CircuitRosterProps) {
+  const { toast } = useToast();
+  const [sectionFilter, setSectionFilter] = useState('all');
+  const [guardianStudent, setGuardianStudent] = useState<RosterEntry['student'] | null>(null);
+  const rosterUrl = `/api/wisdom-circuits/${circuitId}/roster`;
+
+  const { data: sections = [] } = useQuery<CircuitSection[]>({
+    queryKey: [`/api/wisdom-circuits/${circuitId}/sections`],
+    staleTime: 1000,
+  });
+
+  const { data: roster = [], isLoading } = useQuery<RosterEntry[]>({
+    queryKey: [sectionFilter === 'all' ? rosterUrl : `${rosterUrl}?sectionId=${sectionFilter}`],
+    staleTime: 1000,
+  });
+
+  // Refresh every filtered view of the roster
+  const invalidateRoster = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(rosterUrl),
+    });
+  };
+
+  const removeStudentMutation = useMutation({
+    mutationFn: async (studentId: number) => {
+      const response = await apiRequest('DELETE', `/api/wisdom-circuits/${circuitId}/roster/${studentId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRoster();
+      toast({
+        title: 'Success',
+        description: 'Student removed from circuit',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ studentId, action }: { studentId: number; action: 'block' | 'unblock' }) => {
+      const response = await apiRequest('POST', `/api/wisdom-circuits/${circuitId}/roster/${studentId}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      invalidateRoster();
+      toast({
+        title: 'Success',
+        description: action === 'block' ? 'Student blocked from circuit' : 'Student unblocked',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const assignSectionMutation = useMutation({
+    mutationFn: async ({ studentId, sectionId }: { studentId: number; sectionId: number | null }) => {
+      const response = await apiRequest('PUT', `/api/wisdom-circuits/${circuitId}/roster/${studentId}/section`, { sectionId });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRoster();
+      toast({
+        title: 'Success',
+        description: 'Student section updated',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold">Enrolled Students</h3>
+        {sections.length > 0 && (
+          <Select value={sectionFilter} onValueChange={setSectionFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Filter by section" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Sections</SelectItem>
+              {sections.map((section) => (
+                <SelectItem key={section.id} value={section.id.toString()}>
+                  {section.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <div className="border rounded-lg">
+        {roster.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            {sectionFilter === 'all'
+              ? 'No students have joined this circuit yet. Share the circuit code to get started.'
+              : 'No students in this section yet. Share the section code to get started.'}
+          </div>
+        ) : (
+          <>
+            <div className="bg-muted/50 p-3 grid grid-cols-12 gap-4 text-sm font-medium border-b">
+              <div className="col-span-3">Student</div>
+              <div className="col-span-3">Section</div>
+              <div className="col-span-2">Joined</div>
+              <div className="col-span-2">Last Activity</div>
+              <div className="col-span-2 text-right">Actions</div>
+            </div>
+            <div className="p-3 space-y-2">
+              {roster.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="grid grid-cols-12 gap-4 items-center hover:bg-muted/50 rounded-lg p-2"
+                >
+                  <div className="col-span-3">
+                    <div className="font-medium flex items-center gap-2">
+                      {entry.student.displayName || entry.student.email}
+                      {entry.status === 'blocked' && (
+                        <Badge variant="destructive">Blocked</Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500">{entry.student.email}</div>
+                  </div>
+                  <div className="col-span-3">
+                    <Select
+                      value={entry.sectionId?.toString() ?? 'none'}
+                      onValueChange={(value) => assignSectionMutation.mutate({
+                        studentId: entry.studentId,
+                        sectionId: value === 'none' ? null : parseInt(value),
+                      })}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No section</SelectItem>
+                        {sections.map((section) => (
+                          <SelectItem key={section.id} value={section.id.toString()}>
+                            {section.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2 text-sm text-gray-500">
+                    {format(new Date(entry.enrolledAt), 'PP')}
+                  </div>
+                  <div className="col-span-2 text-sm text-gray-500">
+                    {entry.lastActiveAt
+                      ? formatDistanceToNow(new Date(entry.lastActiveAt), { addSuffix: true })
+                      : 'No activity yet'}
+                  </div>
+                  <div className="col-span-2 flex justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Invite parent or guardian"
+                      onClick={() => setGuardianStudent(entry.student)}
+                    >
+                      <Users className="h-4 w-4" />
+                    </Button>
+                    {entry.status === 'blocked' ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Unblock student"
+                        onClick={() => updateStatusMutation.mutate({ studentId: entry.studentId, action: 'unblock' })}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Block student"
+                        onClick={() => updateStatusMutation.mutate({ studentId: entry.studentId, action: 'block' })}
+                      >
+                        <Ban className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Remove student"
+                      onClick={() => removeStudentMutation.mutate(entry.studentId)}
+                    >
+                      <UserMinus className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <GuardianInviteDialog
+        open={!!guardianStudent}
+        onOpenChange={(open) => !open && setGuardianStudent(null)}
+        studentId={guardianStudent?.id}
+        studentName={guardianStudent ? guardianStudent.displayName || guardianStudent.email : undefined}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { type WisdomCircuit, type CircuitSection } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CircuitJoinCode } from "@/components/circuit-join-code";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+interface CircuitSectionsProps {
+  circuit: WisdomCircuit;
+}
+
+export function CircuitSections({ circuit }: CircuitSectionsProps) {
+  const { toast } = useToast();
+  const [sectionName, setSectionName] = useState('');
+  const sectionsKey = [`/api/wisdom-circuits/${circuit.id}/sections`];
+
+  const { data: sections = [], isLoading } = useQuery<CircuitSection[]>({
+    queryKey: sectionsKey,
+    staleTime: 1000,
+  });
+
+  const createSectionMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', `/api/wisdom-circuits/${circuit.id}/sections`, { name });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sectionsKey });
+      setSectionName('');
+      toast({
+        title: 'Success',
+        description: 'Section created',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteSectionMutation = useMutation({
+    mutationFn: async (sectionId: number) => {
+      const response = await apiRequest('DELETE', `/api/wisdom-circuits/${circuit.id}/sections/${sectionId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sectionsKey });
+      // Students of the deleted section are left without one
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/wisdom-circuits/${circuit.id}/roster`),
+      });
+      toast({
+        title: 'Success',
+        description: 'Section deleted. Its students remain enrolled in the circuit.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleCreateSection = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sectionName.trim()) {
+      return;
+    }
+    createSectionMutation.mutate(sectionName.trim());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold">Class Sections</h3>
+        <p className="text-sm text-gray-600">
+          Teach several periods from one circuit. Each section has its own join code, and students
+          who join with it are placed in that section.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreateSection} className="flex gap-2">
+        <Input
+          placeholder="e.g. Period 1"
+          maxLength={50}
+          value={sectionName}
+          onChange={(e) => setSectionName(e.target.value)}
+        />
+        <Button type="submit" disabled={!sectionName.trim() || createSectionMutation.isPending}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Section
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-16">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+        </div>
+      ) : (
+        sections.map((section) => (
+          <div key={section.id} className="border rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{section.name}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Delete section"
+                onClick={() => deleteSectionMutation.mutate(section.id)}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+            <CircuitJoinCode
+              label="Section Code"
+              title={`${circuit.name} (${section.name})`}
+              teacherName={circuit.teacherName}
+              joinCode={section}
+              codeUrl={`/api/wisdom-circuits/${circuit.id}/sections/${section.id}/code`}
+              onUpdated={() => queryClient.invalidateQueries({ queryKey: sectionsKey })}
+            />
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
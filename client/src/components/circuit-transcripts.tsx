@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { type Citation, type PublicMessage, type RosterEntry, type Transcript, type TranscriptPage } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { CitationChips } from "@/components/citation-chips";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Download, Search, StickyNote, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface CircuitTranscriptsProps {
+  circuitId: number;
+}
+
+const PAGE_SIZE = 20;
+
+function studentName(student: Transcript['student']) {
+  return student.displayName || student.email;
+}
+
+function speakerName(message: PublicMessage, student: Transcript['student']) {
+  if (message.role === 'user') return studentName(student);
+  if (message.role === 'teacher') return `${message.authorName} (teacher)`;
+  if (message.role === 'event') return 'Handoff';
+  return 'Tutor';
+}
+
+// Plain-text copy of a conversation, including the teachers' notes
+function downloadTranscript(transcript: Transcript) {
+  const lines = [
+    `Conversation: ${transcript.title}`,
+    `Student: ${studentName(transcript.student)} <${transcript.student.email}>`,
+    `Started: ${format(new Date(transcript.createdAt), 'PPpp')}`,
+    '',
+  ];
+
+  for (const message of transcript.messages) {
+    const speaker = speakerName(message, transcript.student);
+    lines.push(`[${format(new Date(message.createdAt), 'PP p')}] ${speaker}:`, message.content);
+    if (message.attachmentType) {
+      lines.push('(Attached a photo)');
+    }
+    for (const citation of (message.citations as Citation[] | null) ?? []) {
+      lines.push(`  Source [${citation.marker}]: ${citation.title}`);
+    }
+    for (const note of transcript.notes.filter(note => note.messageId === message.id)) {
+      lines.push(`  Note from ${note.author.displayName || note.author.email}: ${note.content}`);
+    }
+    lines.push('');
+  }
+
+  const blob = new Blob([lines.join('\n')], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `transcript-${transcript.id}.txt`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function CircuitTranscripts({ circuitId }: CircuitTranscriptsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [studentFilter, setStudentFilter] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [keywordInput, setKeywordInput] = useState('');
+  const [keyword, setKeyword] = useState('');
+  const [page, setPage] = useState(1);
+  const [selectedConversationId, setSelectedConversationId] = useState<number | null>(null);
+  const [noteMessageId, setNoteMessageId] = useState<number | null>(null);
+  const [noteText, setNoteText] = useState('');
+  const transcriptsUrl = `/api/wisdom-circuits/${circuitId}/transcripts`;
+
+  const params = new URLSearchParams({ page: page.toString(), pageSize: PAGE_SIZE.toString() });
+  if (studentFilter !== 'all') params.set('studentId', studentFilter);
+  // Dates are whole days in the teacher's time zone
+  if (fromDate) params.set('from', new Date(`${fromDate}T00:00:00`).toISOString());
+  if (toDate) params.set('to', new Date(`${toDate}T23:59:59.999`).toISOString());
+  if (keyword) params.set('q', keyword);
+
+  const { data: roster = [] } = useQuery<RosterEntry[]>({
+    queryKey: [`/api/wisdom-circuits/${circuitId}/roster`],
+    staleTime: 1000,
+  });
+
+  const { data: transcriptPage, isLoading } = useQuery<TranscriptPage>({
+    queryKey: [`${transcriptsUrl}?${params.toString()}`],
+    staleTime: 1000,
+  });
+
+  const { data: transcript } = useQuery<Transcript>({
+    queryKey: [`${transcriptsUrl}/${selectedConversationId}`],
+    enabled: selectedConversationId !== null,
+    staleTime: 1000,
+  });
+
+  const refreshTranscript = () => {
+    queryClient.invalidateQueries({ queryKey: [`${transcriptsUrl}/${selectedConversationId}`] });
+  };
+
+  const addNoteMutation = useMutation({
+    mutationFn: async ({ messageId, content }: { messageId: number; content: string }) => {
+      const response = await apiRequest('POST', `${transcriptsUrl}/${selectedConversationId}/messages/${messageId}/notes`, { content });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNoteMessageId(null);
+      setNoteText('');
+      refreshTranscript();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: async (noteId: number) => {
+      const response = await apiRequest('DELETE', `/api/message-notes/${noteId}`);
+      return response.json();
+    },
+    onSuccess: refreshTranscript,
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Any change to the filters starts again from the first page
+  const updateFilter = (update: () => void) => {
+    update();
+    setPage(1);
+  };
+
+  const totalPages = transcriptPage ? Math.max(1, Math.ceil(transcriptPage.total / transcriptPage.pageSize)) : 1;
+
+  if (selectedConversationId !== null) {
+    return (
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setSelectedConversationId(null)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <CardTitle>{transcript?.title ?? 'Loading...'}</CardTitle>
+              {transcript && (
+                <p className="text-sm text-gray-600">
+                  {studentName(transcript.student)} · {format(new Date(transcript.createdAt), 'PP p')}
+                </p>
+              )}
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!transcript}
+            onClick={() => transcript && downloadTranscript(transcript)}
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {transcript?.messages.map((message) => (
+            <div key={message.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-semibold">
+                  {speakerName(message, transcript.student)}
+                  <span className="font-normal text-gray-500"> · {format(new Date(message.createdAt), 'PP p')}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Add a private note"
+                  onClick={() => {
+                    setNoteMessageId(message.id);
+                    setNoteText('');
+                  }}
+                >
+                  <StickyNote className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              {message.attachmentType && (
+                <a href={`/api/messages/${message.id}/attachment`} target="_blank" rel="noopener noreferrer">
+                  <img src={`/api/messages/${message.id}/attachment`} alt="Attached by the student" className="max-h-64 rounded border" />
+                </a>
+              )}
+              {message.citations != null && (
+                <CitationChips citations={message.citations as Citation[]} />
+              )}
+
+              {transcript.notes.filter(note => note.messageId === message.id).map((note) => (
+                <div key={note.id} className="flex items-start justify-between gap-2 bg-yellow-50 border border-yellow-200 rounded p-2 text-sm">
+                  <div>
+                    <span className="font-medium">{note.author.displayName || note.author.email}: </span>
+                    {note.content}
+                  </div>
+                  {note.authorId === user?.id && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      title="Delete note"
+                      disabled={deleteNoteMutation.isPending}
+                      onClick={() => deleteNoteMutation.mutate(note.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+
+              {noteMessageId === message.id && (
+                <div className="space-y-2">
+                  <Textarea
+                    value={noteText}
+                    onChange={(e) => setNoteText(e.target.value)}
+                    placeholder="Only teachers of this circuit can see this note"
+                    rows={2}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setNoteMessageId(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={!noteText.trim() || addNoteMutation.isPending}
+                      onClick={() => addNoteMutation.mutate({ messageId: message.id, content: noteText })}
+                    >
+                      Save Note
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Student Conversations</CardTitle>
+        <p className="text-sm text-gray-600">
+          What students asked the tutor and what it answered.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-4 gap-2 items-end">
+          <div className="space-y-1">
+            <Label>Student</Label>
+            <Select value={studentFilter} onValueChange={(value) => updateFilter(() => setStudentFilter(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All students</SelectItem>
+                {roster.map((entry) => (
+                  <SelectItem key={entry.student.id} value={entry.student.id.toString()}>
+                    {entry.student.displayName || entry.student.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="transcripts-from">From</Label>
+            <Input
+              id="transcripts-from"
+              type="date"
+              value={fromDate}
+              onChange={(e) => updateFilter(() => setFromDate(e.target.value))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="transcripts-to">To</Label>
+            <Input
+              id="transcripts-to"
+              type="date"
+              value={toDate}
+              onChange={(e) => updateFilter(() => setToDate(e.target.value))}
+            />
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateFilter(() => setKeyword(keywordInput.trim()));
+            }}
+          >
+            <Input
+              placeholder="Keyword"
+              value={keywordInput}
+              onChange={(e) => setKeywordInput(e.target.value)}
+            />
+            <Button type="submit" variant="outline" size="icon" title="Search">
+              <Search className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+
+        <div className="rounded-md border">
+          {isLoading && (
+            <p className="text-sm text-gray-500 text-center py-4">Loading...</p>
+          )}
+          {transcriptPage?.conversations.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No conversations match these filters.</p>
+          )}
+          {transcriptPage?.conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className="p-3 flex items-center justify-between gap-4 text-sm border-t first:border-t-0 hover:bg-muted/50 cursor-pointer"
+              onClick={() => setSelectedConversationId(conversation.id)}
+            >
+              <div>
+                <div className="font-medium">{conversation.title}</div>
+                <div className="text-gray-500">
+                  {studentName(conversation.student)} · {conversation.messageCount} messages
+                </div>
+              </div>
+              <div className="text-gray-500 whitespace-nowrap">
+                {format(new Date(conversation.updatedAt), 'PP p')}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">
+            {transcriptPage ? `${transcriptPage.total} conversations` : ''}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span>Page {page} of {totalPages}</span>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
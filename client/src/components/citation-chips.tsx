@@ -0,0 +1,48 @@
+import { type Citation } from "@shared/schema";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { FileText } from "lucide-react";
+
+interface CitationChipsProps {
+  citations: Citation[];
+}
+
+// The circuit content a tutor reply cited. Each chip opens the original file,
+// and hovering shows the passage the reply drew on.
+export function CitationChips({ citations }: CitationChipsProps) {
+  return (
+    <div className="mt-2 flex flex-wrap gap-1">
+      {citations.map((citation) => {
+        const label = (
+          <>
+            <FileText className="h-3 w-3 shrink-0" />
+            <span className="truncate">[{citation.marker}] {citation.title}</span>
+          </>
+        );
+        const chipClassName = "inline-flex max-w-[16rem] items-center gap-1 rounded-full border bg-white/70 px-2 py-0.5 text-xs text-gray-700";
+
+        return (
+          <HoverCard key={citation.contentId} openDelay={200}>
+            <HoverCardTrigger asChild>
+              {citation.contentUrl ? (
+                <a
+                  href={citation.contentUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`${chipClassName} hover:bg-white`}
+                >
+                  {label}
+                </a>
+              ) : (
+                <span className={chipClassName}>{label}</span>
+              )}
+            </HoverCardTrigger>
+            <HoverCardContent className="w-80 text-sm">
+              <p className="font-medium">{citation.title}</p>
+              <p className="mt-1 text-gray-600 italic">"{citation.excerpt}"</p>
+            </HoverCardContent>
+          </HoverCard>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { type CrisisAlertEntry } from "@shared/schema";
+
+interface CrisisAlertsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  'self-harm': 'Self-harm',
+  abuse: 'Abuse',
+  danger: 'Danger',
+};
+
+export function CrisisAlertsDialog({ open, onOpenChange }: CrisisAlertsDialogProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<'open' | 'acknowledged'>('open');
+
+  const { data: alerts = [] } = useQuery<CrisisAlertEntry[]>({
+    queryKey: [status === 'open' ? '/api/crisis-alerts' : '/api/crisis-alerts?status=acknowledged'],
+    enabled: open,
+    staleTime: 1000,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (alertId: number) => {
+      const response = await apiRequest('POST', `/api/crisis-alerts/${alertId}/acknowledge`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/crisis-alerts'),
+      });
+      toast({
+        title: 'Success',
+        description: 'Alert acknowledged',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Urgent Student Alerts</DialogTitle>
+          <DialogDescription>
+            Students who told the tutor about self-harm, abuse or danger. They were shown crisis
+            resources; please follow your school's safeguarding procedure and check in with them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={status} onValueChange={(value) => setStatus(value as 'open' | 'acknowledged')}>
+          <TabsList>
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="acknowledged">Acknowledged</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {alerts.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">
+              {status === 'open' ? 'No open alerts.' : 'No acknowledged alerts yet.'}
+            </p>
+          )}
+          {alerts.map((alert) => (
+            <div key={alert.id} className="border border-destructive/50 rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{alert.student.displayName || alert.student.email}</span>
+                  {(alert.categories as string[]).map((category) => (
+                    <Badge key={category} variant="destructive">{CATEGORY_LABELS[category] ?? category}</Badge>
+                  ))}
+                  <span className="text-sm text-gray-500">
+                    {alert.circuitName} · {format(new Date(alert.createdAt), 'PP p')}
+                  </span>
+                </div>
+                {!alert.acknowledgedAt && (
+                  <Button
+                    size="sm"
+                    disabled={acknowledgeMutation.isPending}
+                    onClick={() => acknowledgeMutation.mutate(alert.id)}
+                  >
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm whitespace-pre-wrap bg-muted/50 rounded p-2">{alert.content}</p>
+              <div className="text-xs text-gray-500 space-y-1">
+                {alert.notifications.map((notification) => (
+                  <div key={notification.id}>
+                    {notification.recipient.displayName || notification.recipient.email} ({notification.recipientRole})
+                    {' '}notified {format(new Date(notification.notifiedAt), 'PP p')}
+                    {notification.acknowledgedAt
+                      ? `, acknowledged ${format(new Date(notification.acknowledgedAt), 'PP p')}`
+                      : ', not yet acknowledged'}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
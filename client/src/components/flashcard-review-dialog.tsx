@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { type DueFlashcard } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ChatMarkdown } from "@/components/chat-markdown";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface FlashcardReviewDialogProps {
+  circuitId: number;
+  subject: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// How well the student remembered a card, on the server's 0-5 recall scale
+const RATINGS = [
+  { label: 'Again', quality: 1, className: 'border-red-200 hover:bg-red-50' },
+  { label: 'Hard', quality: 3, className: 'border-orange-200 hover:bg-orange-50' },
+  { label: 'Good', quality: 4, className: 'border-green-200 hover:bg-green-50' },
+  { label: 'Easy', quality: 5, className: 'border-blue-200 hover:bg-blue-50' },
+];
+
+export function FlashcardReviewDialog({ circuitId, subject, open, onOpenChange }: FlashcardReviewDialogProps) {
+  const { toast } = useToast();
+  const [position, setPosition] = useState(0);
+  const [showBack, setShowBack] = useState(false);
+
+  // The batch stays fixed while the student works through it
+  const { data: cards = [], isLoading } = useQuery<DueFlashcard[]>({
+    queryKey: [`/api/circuit/${circuitId}/flashcards/due`],
+    enabled: open,
+    staleTime: Infinity,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ cardId, quality }: { cardId: number; quality: number }) => {
+      const response = await apiRequest('POST', `/api/flashcards/${cardId}/review`, { quality });
+      return response.json();
+    },
+    onSuccess: () => {
+      setShowBack(false);
+      setPosition(position + 1);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const card = cards[position];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        onOpenChange(isOpen);
+        if (!isOpen) {
+          setPosition(0);
+          setShowBack(false);
+          queryClient.removeQueries({ queryKey: [`/api/circuit/${circuitId}/flashcards/due`] });
+          queryClient.invalidateQueries({ queryKey: ['/api/flashcards/due-counts'] });
+        }
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Flashcards</DialogTitle>
+          <DialogDescription>
+            {card ? `${subject} · ${card.deckTitle}` : subject}
+          </DialogDescription>
+        </DialogHeader>
+
+        {cards.length > 0 && (
+          <Progress value={(position / cards.length) * 100} />
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 text-center py-8">Loading cards...</p>
+        ) : !card ? (
+          <div className="text-center py-8 space-y-1">
+            <p className="font-semibold">
+              {cards.length > 0 ? `You reviewed ${cards.length} cards` : 'Nothing to review right now'}
+            </p>
+            <p className="text-sm text-gray-500">Come back tomorrow for your next cards.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="border rounded-lg p-6 min-h-[10rem] flex flex-col justify-center text-center space-y-4">
+              <div className="text-lg font-medium">
+                <ChatMarkdown content={card.front} />
+              </div>
+              {showBack && (
+                <div className="border-t pt-4 text-gray-700">
+                  <ChatMarkdown content={card.back} />
+                </div>
+              )}
+            </div>
+            {showBack ? (
+              <div className="grid grid-cols-4 gap-2">
+                {RATINGS.map((rating) => (
+                  <Button
+                    key={rating.label}
+                    variant="outline"
+                    className={rating.className}
+                    disabled={reviewMutation.isPending}
+                    onClick={() => reviewMutation.mutate({ cardId: card.id, quality: rating.quality })}
+                  >
+                    {rating.label}
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <Button className="w-full" onClick={() => setShowBack(true)}>
+                Show Answer
+              </Button>
+            )}
+            <p className="text-xs text-gray-500 text-center">
+              Card {position + 1} of {cards.length}
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, Trash2, UserPlus } from "lucide-react";
+import { format } from "date-fns";
+import { type GuardianLinkEntry } from "@shared/schema";
+
+interface GuardianInviteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Set when a teacher invites on behalf of a student; students omit it
+  studentId?: number;
+  studentName?: string;
+}
+
+function getInviteLink(code: string) {
+  return `${window.location.origin}/guardian?invite=${encodeURIComponent(code)}`;
+}
+
+export function GuardianInviteDialog({ open, onOpenChange, studentId, studentName }: GuardianInviteDialogProps) {
+  const { toast } = useToast();
+  const linksKey = [studentId ? `/api/guardian-invites?studentId=${studentId}` : '/api/guardian-invites'];
+
+  const { data: links = [] } = useQuery<GuardianLinkEntry[]>({
+    queryKey: linksKey,
+    enabled: open,
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/guardian-invites', studentId ? { studentId } : {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const removeLinkMutation = useMutation({
+    mutationFn: async (linkId: number) => {
+      const response = await apiRequest('DELETE', `/api/guardian-links/${linkId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+      toast({
+        title: 'Success',
+        description: 'Guardian access removed',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: "Invite link copied to clipboard",
+      });
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Parents & Guardians</DialogTitle>
+          <DialogDescription>
+            {studentName
+              ? `Invite a parent or guardian to follow ${studentName}'s circuits.`
+              : 'Invite a parent or guardian to follow your circuits.'}{' '}
+            Guardians get read-only access to the circuits and usage that teachers choose to share.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {links.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No guardians invited yet.</p>
+          )}
+          {links.map((link) => (
+            <div key={link.id} className="flex items-center justify-between border rounded-lg p-3">
+              {link.status === 'active' && link.guardian ? (
+                <div>
+                  <div className="font-medium">{link.guardian.displayName || link.guardian.email}</div>
+                  <div className="text-sm text-gray-500">
+                    Linked {link.acceptedAt && format(new Date(link.acceptedAt), 'PP')}
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <div className="font-medium flex items-center gap-2">
+                    {link.inviteCode}
+                    <Badge variant="secondary">Pending</Badge>
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    Created {format(new Date(link.createdAt), 'PP')}
+                  </div>
+                </div>
+              )}
+              <div className="flex items-center gap-1">
+                {link.status === 'pending' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Copy invite link"
+                    onClick={() => handleCopy(getInviteLink(link.inviteCode))}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title={link.status === 'active' ? 'Remove guardian' : 'Cancel invite'}
+                  onClick={() => removeLinkMutation.mutate(link.id)}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={() => createInviteMutation.mutate()} disabled={createInviteMutation.isPending}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Create Invite
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,99 @@
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Check, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { type JoinRequest } from "@shared/schema";
+
+interface JoinRequestsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  requests: JoinRequest[];
+}
+
+type JoinRequestAction = 'approve' | 'deny';
+
+export function JoinRequestsDialog({ open, onOpenChange, requests }: JoinRequestsDialogProps) {
+  const { toast } = useToast();
+
+  const reviewRequestMutation = useMutation({
+    mutationFn: async ({ request, action }: { request: JoinRequest; action: JoinRequestAction }) => {
+      const response = await apiRequest('POST', `/api/wisdom-circuits/${request.circuitId}/join-requests/${request.studentId}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_data, { request, action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wisdom-circuits/join-requests'] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/wisdom-circuits/${request.circuitId}/roster`),
+      });
+      toast({
+        title: 'Success',
+        description: action === 'approve' ? 'Student added to the circuit' : 'Join request denied',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Join Requests</DialogTitle>
+          <DialogDescription>
+            Students waiting to join circuits that require approval.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+          {requests.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No pending join requests.</p>
+          )}
+          {requests.map((request) => (
+            <div key={request.id} className="flex items-center justify-between border rounded-lg p-3">
+              <div>
+                <div className="font-medium">{request.student.displayName || request.student.email}</div>
+                <div className="text-sm text-gray-500">
+                  {request.circuitName} · {formatDistanceToNow(new Date(request.enrolledAt), { addSuffix: true })}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Approve"
+                  disabled={reviewRequestMutation.isPending}
+                  onClick={() => reviewRequestMutation.mutate({ request, action: 'approve' })}
+                >
+                  <Check className="h-4 w-4 text-green-600" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Deny"
+                  disabled={reviewRequestMutation.isPending}
+                  onClick={() => reviewRequestMutation.mutate({ request, action: 'deny' })}
+                >
+                  <X className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { type User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+type CounselorContact = Pick<User, "id" | "email" | "displayName">;
+
+export function OrganizationCounselorSettings() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+
+  const { data: counselor } = useQuery<CounselorContact | null>({
+    queryKey: ['/api/organization/counselor'],
+  });
+
+  const updateCounselorMutation = useMutation({
+    mutationFn: async (counselorEmail: string | null) => {
+      const response = await apiRequest('PUT', '/api/organization/counselor', { email: counselorEmail });
+      return response.json();
+    },
+    onSuccess: (_data, counselorEmail) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization/counselor'] });
+      setEmail('');
+      toast({
+        title: 'Success',
+        description: counselorEmail ? 'Counselor contact updated' : 'Counselor contact removed',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div>
+        <Label htmlFor="counselor-email">School counselor</Label>
+        <p className="text-sm text-gray-600">
+          Receives an urgent alert, alongside the circuit's teacher, whenever a student tells the tutor about
+          self-harm, abuse or danger.
+        </p>
+      </div>
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span>
+          {counselor
+            ? `${counselor.displayName || counselor.email}${counselor.displayName ? ` (${counselor.email})` : ''}`
+            : 'No counselor set. Only teachers are alerted.'}
+        </span>
+        {counselor && (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={updateCounselorMutation.isPending}
+            onClick={() => updateCounselorMutation.mutate(null)}
+          >
+            Remove
+          </Button>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          id="counselor-email"
+          type="email"
+          placeholder="counselor@school.edu"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <Button
+          disabled={!email.trim() || updateCounselorMutation.isPending}
+          onClick={() => updateCounselorMutation.mutate(email.trim())}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
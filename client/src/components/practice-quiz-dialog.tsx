@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { type PracticeQuizWithItems, type QuizItem, type StudentQuizItem } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ChatMarkdown } from "@/components/chat-markdown";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+interface PracticeQuizDialogProps {
+  circuitId: number;
+  subject: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// What the student answered, in words: multiple choice answers are stored as the option's index
+function describeAnswer(item: StudentQuizItem, answer: string | null): string {
+  if (answer === null) return '';
+  return item.type === 'multiple_choice' ? (item.choices as string[])[parseInt(answer)] ?? answer : answer;
+}
+
+export function PracticeQuizDialog({ circuitId, subject, open, onOpenChange }: PracticeQuizDialogProps) {
+  const { toast } = useToast();
+  const [topic, setTopic] = useState('');
+  const [quiz, setQuiz] = useState<PracticeQuizWithItems<StudentQuizItem> | null>(null);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const createQuizMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/circuit/${circuitId}/quizzes`, { topic: topic.trim() || null });
+      return response.json();
+    },
+    onSuccess: (created: PracticeQuizWithItems<StudentQuizItem>) => {
+      setQuiz(created);
+      setAnswers({});
+    },
+    onError,
+  });
+
+  const answerMutation = useMutation({
+    mutationFn: async ({ itemId, answer }: { itemId: number; answer: string }) => {
+      const response = await apiRequest('POST', `/api/quiz-items/${itemId}/answer`, { answer });
+      return response.json();
+    },
+    onSuccess: (answered: QuizItem) => {
+      setQuiz(current => current && {
+        ...current,
+        items: current.items.map(item => item.id === answered.id ? answered : item),
+      });
+    },
+    onError,
+  });
+
+  const answeredCount = quiz?.items.filter(item => item.answeredAt).length ?? 0;
+  const correctCount = quiz?.items.filter(item => item.isCorrect).length ?? 0;
+  const isFinished = !!quiz && answeredCount === quiz.items.length;
+
+  const startOver = () => {
+    setQuiz(null);
+    setAnswers({});
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        onOpenChange(isOpen);
+        if (!isOpen) startOver();
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Practice Quiz</DialogTitle>
+          <DialogDescription>
+            {quiz
+              ? `${answeredCount} of ${quiz.items.length} answered${quiz.topic ? ` · ${quiz.topic}` : ''}`
+              : `A few questions on ${subject} to check what you know.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!quiz && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="quiz-topic">What do you want to practice?</Label>
+              <Input
+                id="quiz-topic"
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                placeholder="Leave blank for everything in this class"
+                maxLength={200}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button disabled={createQuizMutation.isPending} onClick={() => createQuizMutation.mutate()}>
+                {createQuizMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {createQuizMutation.isPending ? 'Writing questions...' : 'Start Quiz'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {quiz && (
+          <div className="space-y-4">
+            {quiz.items.map((item, index) => {
+              const draft = answers[item.id] ?? '';
+              const isChecking = answerMutation.isPending && answerMutation.variables?.itemId === item.id;
+
+              return (
+                <div key={item.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex gap-2">
+                    <span className="font-semibold">{index + 1}.</span>
+                    <ChatMarkdown content={item.question} />
+                  </div>
+
+                  {item.type === 'multiple_choice' && (
+                    <RadioGroup
+                      value={item.answeredAt ? item.studentAnswer ?? '' : draft}
+                      onValueChange={(value) => setAnswers({ ...answers, [item.id]: value })}
+                      disabled={!!item.answeredAt}
+                    >
+                      {(item.choices as string[]).map((choice, choiceIndex) => (
+                        <div
+                          key={choiceIndex}
+                          className={`flex items-center gap-2 rounded px-2 py-1 ${
+                            item.answeredAt && item.answer === choiceIndex.toString() ? 'bg-green-50' : ''
+                          }`}
+                        >
+                          <RadioGroupItem value={choiceIndex.toString()} id={`quiz-${item.id}-${choiceIndex}`} />
+                          <Label htmlFor={`quiz-${item.id}-${choiceIndex}`} className="font-normal">
+                            <ChatMarkdown content={choice} />
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  )}
+                  {item.type === 'numeric' && !item.answeredAt && (
+                    <Input
+                      inputMode="decimal"
+                      value={draft}
+                      onChange={(e) => setAnswers({ ...answers, [item.id]: e.target.value })}
+                      placeholder="Your answer"
+                    />
+                  )}
+                  {item.type === 'short_answer' && !item.answeredAt && (
+                    <Textarea
+                      value={draft}
+                      onChange={(e) => setAnswers({ ...answers, [item.id]: e.target.value })}
+                      placeholder="Your answer"
+                      rows={2}
+                    />
+                  )}
+
+                  {item.answeredAt ? (
+                    <div className={`rounded p-3 text-sm space-y-1 ${item.isCorrect ? 'bg-green-50' : 'bg-red-50'}`}>
+                      <div className="flex items-center gap-1 font-semibold">
+                        {item.isCorrect
+                          ? <><CheckCircle2 className="h-4 w-4 text-green-600" /> Correct</>
+                          : <><XCircle className="h-4 w-4 text-red-600" /> Not quite</>}
+                      </div>
+                      {item.type !== 'multiple_choice' && (
+                        <p>Your answer: {item.studentAnswer}</p>
+                      )}
+                      {!item.isCorrect && (
+                        <p>
+                          {item.type === 'short_answer' ? 'A good answer' : 'Correct answer'}: {describeAnswer(item, item.answer)}
+                        </p>
+                      )}
+                      {item.feedback && <p>{item.feedback}</p>}
+                      {item.explanation && <ChatMarkdown content={item.explanation} />}
+                    </div>
+                  ) : (
+                    <div className="flex justify-end">
+                      <Button
+                        size="sm"
+                        disabled={!draft.trim() || answerMutation.isPending}
+                        onClick={() => answerMutation.mutate({ itemId: item.id, answer: draft })}
+                      >
+                        {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Check
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {isFinished && (
+              <div className="flex items-center justify-between rounded-lg border p-4">
+                <span className="font-semibold">
+                  You got {correctCount} of {quiz.items.length} right
+                </span>
+                <Button variant="outline" onClick={startOver}>
+                  New Quiz
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Download, FileUp, Loader2 } from "lucide-react";
+import { type WisdomCircuit, type RosterImportReport, type RosterImportRow } from "@shared/schema";
+
+interface RosterImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  circuits: WisdomCircuit[];
+}
+
+const STATUS_BADGES: Record<RosterImportRow['status'], 'default' | 'secondary' | 'destructive'> = {
+  created: 'default',
+  skipped: 'secondary',
+  error: 'destructive',
+};
+
+function escapeCsvField(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Lets the teacher keep the temporary passwords to hand out to students
+function downloadReport(report: RosterImportReport) {
+  const lines = [
+    'row,email,status,message,temporary_password',
+    ...report.rows.map(row => [
+      row.row.toString(),
+      row.email ?? '',
+      row.status,
+      row.message ?? '',
+      row.temporaryPassword ?? '',
+    ].map(escapeCsvField).join(',')),
+  ];
+  const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'roster-import-report.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function RosterImportDialog({ open, onOpenChange, circuits }: RosterImportDialogProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<'csv' | 'oneroster'>('csv');
+  const [selectedCircuitIds, setSelectedCircuitIds] = useState<number[]>([]);
+  const [report, setReport] = useState<RosterImportReport | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (formData: FormData) => {
+      const response = await fetch('/api/roster-import', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import roster');
+      }
+      return data as RosterImportReport;
+    },
+    onSuccess: (data) => {
+      setReport(data);
+      queryClient.invalidateQueries({
+        predicate: (query) => selectedCircuitIds.some(circuitId =>
+          String(query.queryKey[0]).startsWith(`/api/wisdom-circuits/${circuitId}/roster`)
+        ),
+      });
+      toast({
+        title: 'Success',
+        description: `Imported ${data.created} new students`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const formData = new FormData(e.target as HTMLFormElement);
+    formData.append('format', format);
+    formData.append('circuitIds', selectedCircuitIds.join(','));
+    importMutation.mutate(formData);
+  };
+
+  const toggleCircuit = (circuitId: number, checked: boolean) => {
+    setSelectedCircuitIds(current =>
+      checked ? [...current, circuitId] : current.filter(id => id !== circuitId)
+    );
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setReport(null);
+      setSelectedCircuitIds([]);
+    }
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>Import Roster</DialogTitle>
+          <DialogDescription>
+            Create student accounts from a roster file and enroll them into your circuits.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 pr-4">
+          {report ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-muted/50 p-4 rounded-lg text-center">
+                  <div className="text-2xl font-bold">{report.created}</div>
+                  <div className="text-sm text-gray-600">Created</div>
+                </div>
+                <div className="bg-muted/50 p-4 rounded-lg text-center">
+                  <div className="text-2xl font-bold">{report.skipped}</div>
+                  <div className="text-sm text-gray-600">Skipped</div>
+                </div>
+                <div className="bg-muted/50 p-4 rounded-lg text-center">
+                  <div className="text-2xl font-bold">{report.errors}</div>
+                  <div className="text-sm text-gray-600">Errors</div>
+                </div>
+              </div>
+
+              {report.rows.some(row => row.temporaryPassword) && (
+                <p className="text-sm text-gray-600">
+                  Students created without a password in the file were given a temporary password.
+                  Download the report to share them with your students.
+                </p>
+              )}
+
+              <div className="border rounded-lg">
+                <div className="bg-muted/50 p-3 grid grid-cols-12 gap-4 text-sm font-medium border-b">
+                  <div className="col-span-1">Row</div>
+                  <div className="col-span-4">Email</div>
+                  <div className="col-span-2">Status</div>
+                  <div className="col-span-5">Details</div>
+                </div>
+                <div className="p-3 space-y-2">
+                  {report.rows.map((row) => (
+                    <div key={row.row} className="grid grid-cols-12 gap-4 items-center text-sm">
+                      <div className="col-span-1 text-gray-500">{row.row}</div>
+                      <div className="col-span-4 truncate">{row.email ?? '-'}</div>
+                      <div className="col-span-2">
+                        <Badge variant={STATUS_BADGES[row.status]} className="capitalize">{row.status}</Badge>
+                      </div>
+                      <div className="col-span-5 text-gray-500">
+                        {row.temporaryPassword ? `Temporary password: ${row.temporaryPassword}` : row.message}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => downloadReport(report)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Report
+                </Button>
+                <Button onClick={() => setReport(null)}>Import Another File</Button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label>File Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as 'csv' | 'oneroster')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="csv">Roster CSV</SelectItem>
+                    <SelectItem value="oneroster">OneRoster 1.1</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {format === 'csv' ? (
+                <div>
+                  <Label htmlFor="roster-file">Roster File</Label>
+                  <Input id="roster-file" name="file" type="file" accept=".csv" required />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Needs an <code>email</code> column. <code>name</code> (or <code>first_name</code> and{' '}
+                    <code>last_name</code>) and <code>password</code> columns are optional.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <Label htmlFor="oneroster-users">users.csv</Label>
+                    <Input id="oneroster-users" name="users" type="file" accept=".csv" required />
+                  </div>
+                  <div>
+                    <Label htmlFor="oneroster-enrollments">enrollments.csv (optional)</Label>
+                    <Input id="oneroster-enrollments" name="enrollments" type="file" accept=".csv" />
+                    <p className="text-sm text-gray-500 mt-1">
+                      When provided, only users enrolled as students in a class are imported.
+                    </p>
+                  </div>
+                </>
+              )}
+
+              <div className="space-y-2">
+                <Label>Enroll Into</Label>
+                {circuits.length === 0 ? (
+                  <p className="text-sm text-gray-500">Create a circuit first to enroll the imported students.</p>
+                ) : (
+                  circuits.map((circuit) => (
+                    <div key={circuit.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`import-circuit-${circuit.id}`}
+                        checked={selectedCircuitIds.includes(circuit.id)}
+                        onCheckedChange={(checked) => toggleCircuit(circuit.id, checked === true)}
+                      />
+                      <Label htmlFor={`import-circuit-${circuit.id}`} className="font-normal">
+                        {circuit.name}
+                      </Label>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={importMutation.isPending}>
+                {importMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FileUp className="h-4 w-4 mr-2" />
+                )}
+                Import Students
+              </Button>
+            </form>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
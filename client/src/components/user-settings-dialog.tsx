@@ -11,6 +11,8 @@ import { Archive, RotateCcw, Trash2 } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { format } from "date-fns";
 import { WisdomCircuit } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { OrganizationCounselorSettings } from "@/components/organization-counselor-settings";
 
 interface UserSettingsDialogProps {
   open: boolean;
@@ -33,6 +35,9 @@ export function UserSettingsDialog({
   onDelete,
   onCircuitClick,
 }: UserSettingsDialogProps) {
+  const { user } = useAuth();
+  const isSchoolAdmin = !!user?.isAdmin && !!user.organizationId;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl h-[85vh] flex flex-col">
@@ -47,6 +52,7 @@ export function UserSettingsDialog({
           <TabsList className="px-6">
             <TabsTrigger value="active">Active Circuits</TabsTrigger>
             <TabsTrigger value="archived">Archived Circuits</TabsTrigger>
+            {isSchoolAdmin && <TabsTrigger value="school">School</TabsTrigger>}
           </TabsList>
 
           <div className="flex-1 overflow-hidden px-6">
@@ -150,6 +156,12 @@ export function UserSettingsDialog({
                   </ScrollArea>
                 </div>
               </TabsContent>
+
+              {isSchoolAdmin && (
+                <TabsContent value="school" className="m-0 mt-0">
+                  <OrganizationCounselorSettings />
+                </TabsContent>
+              )}
             </div>
           </div>
         </Tabs>
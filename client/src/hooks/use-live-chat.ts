@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { type LiveChatClientMessage, type LiveChatEvent } from "@shared/schema";
+
+const RECONNECT_DELAY_MS = 3000;
+
+interface UseLiveChatOptions {
+  enabled: boolean;
+  // Sent whenever the socket (re)connects, and when new ones are added
+  subscriptions: LiveChatClientMessage[];
+  onEvent: (event: LiveChatEvent) => void;
+}
+
+// Connection to the live chat WebSocket, where teachers watch and join
+// student chats. Reconnects on its own while enabled.
+export function useLiveChat({ enabled, subscriptions, onEvent }: UseLiveChatOptions) {
+  const socketRef = useRef<WebSocket | null>(null);
+  const onEventRef = useRef(onEvent);
+  const subscriptionsRef = useRef(subscriptions);
+  const [isConnected, setIsConnected] = useState(false);
+
+  onEventRef.current = onEvent;
+  subscriptionsRef.current = subscriptions;
+  const subscriptionsKey = JSON.stringify(subscriptions);
+
+  const send = useCallback((message: LiveChatClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    socket.send(JSON.stringify(message));
+    return true;
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let closed = false;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws/live-chat`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        setIsConnected(true);
+        subscriptionsRef.current.forEach(message => socket.send(JSON.stringify(message)));
+      };
+      socket.onmessage = (event) => {
+        onEventRef.current(JSON.parse(event.data));
+      };
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (!closed) {
+          reconnectTimeout = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimeout);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [enabled]);
+
+  // Subscriptions added after connecting; the server ignores repeats
+  useEffect(() => {
+    subscriptionsRef.current.forEach(send);
+  }, [subscriptionsKey, send]);
+
+  return { send, isConnected };
+}
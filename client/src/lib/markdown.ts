@@ -0,0 +1,76 @@
+// Helpers for the Markdown and LaTeX the tutor writes in its replies.
+
+// Models often write math as \( \) and \[ \] even when asked for dollar signs;
+// remark-math only understands the dollar forms.
+export function normalizeMath(markdown: string): string {
+  return markdown
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `$$${math}$$`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$${math}$`);
+}
+
+const GREEK_LETTERS = /\\(alpha|beta|gamma|delta|epsilon|theta|lambda|mu|pi|rho|sigma|phi|omega|Delta|Sigma|Omega)\b/g;
+
+// Reads LaTeX the way a teacher would say it out loud
+function mathToSpeech(math: string): string {
+  let text = math;
+
+  // Fractions and roots can nest, so unwrap them from the inside out
+  let previous;
+  do {
+    previous = text;
+    text = text
+      .replace(/\\[dt]?frac\{([^{}]*)\}\{([^{}]*)\}/g, ' $1 over $2 ')
+      .replace(/\\sqrt\{([^{}]*)\}/g, ' the square root of $1 ');
+  } while (text !== previous);
+
+  return text
+    .replace(/\^(?:\{2\}|2(?!\d))/g, ' squared ')
+    .replace(/\^(?:\{3\}|3(?!\d))/g, ' cubed ')
+    .replace(/\^\{([^{}]*)\}/g, ' to the power of $1 ')
+    .replace(/\^(\w)/g, ' to the power of $1 ')
+    .replace(/_\{([^{}]*)\}/g, ' sub $1 ')
+    .replace(/_(\w)/g, ' sub $1 ')
+    .replace(/\\(times|cdot)\b/g, ' times ')
+    .replace(/\\div\b/g, ' divided by ')
+    .replace(/\\pm\b/g, ' plus or minus ')
+    .replace(/\\(leq|le)\b/g, ' is less than or equal to ')
+    .replace(/\\(geq|ge)\b/g, ' is greater than or equal to ')
+    .replace(/\\(neq|ne)\b/g, ' is not equal to ')
+    .replace(/\\approx\b/g, ' is approximately ')
+    .replace(/\\infty\b/g, ' infinity ')
+    .replace(/\\(rightarrow|to)\b/g, ' yields ')
+    .replace(GREEK_LETTERS, ' $1 ')
+    .replace(/\\text\{([^{}]*)\}/g, ' $1 ')
+    .replace(/\\[a-zA-Z]+/g, ' ') // Layout commands like \left and \quad
+    .replace(/=/g, ' equals ')
+    .replace(/\+/g, ' plus ')
+    .replace(/</g, ' is less than ')
+    .replace(/>/g, ' is greater than ')
+    .replace(/(\S)\s*-\s*(\S)/g, '$1 minus $2')
+    .replace(/[{}\\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// A plain-text version of a reply for Read Aloud: math is read in words, code is
+// skipped and Markdown symbols are dropped.
+export function toSpeechText(markdown: string): string {
+  return normalizeMath(markdown)
+    .replace(/```[\s\S]*?(```|$)/g, '\n(See the code example on screen.)\n')
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, math) => ` ${mathToSpeech(math)}. `)
+    .replace(/\$([^$\n]+?)\$/g, (_, math) => mathToSpeech(math))
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/\s?\[\d+\](?!\()/g, '') // Citation markers, shown as chips under the reply
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^[ \t]*\|?[ \t]*:?-{3,}:?[ \t]*(\|[ \t]*:?-{3,}:?[ \t]*)*\|?[ \t]*\n?/gm, '') // Table divider rows
+    .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, cells: string) => cells.split('|').map(cell => cell.trim()).join(', ') + '.')
+    .replace(/^[ \t]{0,3}(#{1,6}|>)[ \t]*/gm, '')
+    .replace(/^[ \t]*[-*+][ \t]+/gm, '')
+    .replace(/^[ \t]*([-*_][ \t]*){3,}$/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])([*_])(\S(?:.*?\S)?)\2(?![\w*])/gm, '$1$3')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
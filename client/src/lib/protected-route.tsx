@@ -22,8 +22,10 @@ export function ProtectedRoute({
           );
         }
 
+        // Bring links like /?join=CODE back to where they were going after sign-in
         if (!user) {
-          return <Redirect to="/auth" />;
+          const next = window.location.pathname + window.location.search;
+          return <Redirect to={next === '/' ? '/auth' : `/auth?next=${encodeURIComponent(next)}`} />;
         }
 
         return <Component />;
@@ -26,10 +26,12 @@ export default function AuthPage() {
     });
   }, []);
 
-  // Redirect if already logged in
+  // Redirect if already logged in, back to the page that sent the user here.
+  // Only same-site paths are followed.
   useEffect(() => {
     if (user) {
-      setLocation("/");
+      const next = new URLSearchParams(window.location.search).get('next');
+      setLocation(next && /^\/(?![\/\\])/.test(next) ? next : "/");
     }
   }, [user, setLocation]);
 
@@ -50,6 +52,7 @@ export default function AuthPage() {
       email: "",
       password: "",
       isTeacher: false,
+      isGuardian: false,
       authProvider: 'local',
     },
   });
@@ -210,6 +213,22 @@ export default function AuthPage() {
                         </FormItem>
                       )}
                     />
+                    <FormField
+                      control={registerForm.control}
+                      name="isGuardian"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center gap-2">
+                          <Input
+                            type="checkbox"
+                            className="w-4 h-4"
+                            checked={field.value}
+                            onChange={(e) => field.onChange(e.target.checked)}
+                          />
+                          <FormLabel className="!mb-0">Register as a parent or guardian</FormLabel>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <Button
                       type="submit"
                       className="w-full"
@@ -1,8 +1,9 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { type WisdomCircuit } from "@shared/schema";
+import { type FlashcardDueCount, type WisdomCircuit } from "@shared/schema";
 import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
 import { findBestMatchingIcon } from "@shared/icon-matcher";
+import { getDefaultChatGreeting } from "@shared/circuit-templates";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -16,8 +17,11 @@ import { Button } from "@/components/ui/button";
 import { toast } from "@/hooks/use-toast";
 import { Footer } from "@/components/ui/footer";
 import ChatModal from '@/components/chat-modal';
-import { Send, LogOut, Settings } from 'lucide-react';
+import { FlashcardReviewDialog } from '@/components/flashcard-review-dialog';
+import { Send, LogOut, Settings, Users, Layers } from 'lucide-react';
+import { Redirect } from 'wouter';
 import { UserSettingsDialog } from '@/components/user-settings-dialog';
+import { GuardianInviteDialog } from '@/components/guardian-invite-dialog';
 import { queryClient } from '@/lib/queryClient';
 
 interface ColorScheme {
@@ -59,6 +63,8 @@ const Dashboard = () => {
   const [circuitCode, setCircuitCode] = useState('');
   const [logoError, setLogoError] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showGuardianInvite, setShowGuardianInvite] = useState(false);
+  const [reviewCircuit, setReviewCircuit] = useState<{ id: string; subject: string } | null>(null);
 
   const { data: apiCircuits = [] } = useQuery<WisdomCircuit[]>({
     queryKey: ["/api/wisdom-circuits/added"],
@@ -70,6 +76,12 @@ const Dashboard = () => {
     enabled: !!user?.isTeacher
   });
 
+  // Flashcards waiting for review in each circuit, shown on its tile
+  const { data: flashcardDueCounts = [] } = useQuery<FlashcardDueCount[]>({
+    queryKey: ["/api/flashcards/due-counts"],
+    enabled: !!user?.id,
+  });
+
   const formattedCircuits = apiCircuits.map((circuit, index) => {
     const existingBgColors = apiCircuits
       .slice(0, index)
@@ -80,6 +92,7 @@ const Dashboard = () => {
     const colorScheme = getUniqueColorScheme(existingBgColors);
 
     const Icon = findBestMatchingIcon(circuit.name);
+    const greeting = getDefaultChatGreeting(circuit.grade);
 
     return {
       id: String(circuit.id),
@@ -93,6 +106,10 @@ const Dashboard = () => {
       isApiCircuit: true,
       code: circuit.code,
       colorScheme,
+      welcomeMessage: circuit.welcomeMessage ?? greeting.welcomeMessage,
+      nudgeMessage: circuit.nudgesEnabled === false ? null : circuit.nudgeMessage ?? greeting.nudgeMessage,
+      nudgeIntervalMinutes: circuit.nudgeIntervalMinutes ?? greeting.nudgeIntervalMinutes,
+      flashcardsDue: flashcardDueCounts.find(entry => entry.circuitId === circuit.id)?.due ?? 0,
     };
   });
 
@@ -112,38 +129,26 @@ const Dashboard = () => {
 
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.message || "Invalid circuit code. Please check and try again.");
+        throw new Error(data.error || data.message || "Invalid circuit code. Please check and try again.");
       }
 
       return await response.json();
     },
-    onSuccess: (circuit) => {
-      const existingBgColors = formattedCircuits.map(c => c.colorScheme?.bg);
-      const colorScheme = getUniqueColorScheme(existingBgColors);
-      const Icon = findBestMatchingIcon(circuit.name + ' ' + circuit.description);
-
-      const newCircuit = {
-        id: String(circuit.id),
-        subject: circuit.name,
-        teacher: circuit.teacherName,
-        description: circuit.description,
-        Icon,
-        bgColor: colorScheme.bg,
-        iconColor: colorScheme.icon,
-        accentColor: colorScheme.accent,
-        isApiCircuit: true,
-        code: circuit.code,
-        colorScheme,
-      };
-
-      queryClient.setQueryData(["/api/wisdom-circuits/added"],
-        (old: WisdomCircuit[] = []) => [{
-          ...circuit,
-          colorScheme,
-        }, ...old]
-      );
-
+    onSuccess: (data) => {
       setCircuitCode('');
+
+      // Circuits that require approval only show up once the teacher accepts
+      if (data.status === 'pending') {
+        toast({
+          title: "Request sent",
+          description: data.message,
+        });
+        return;
+      }
+
+      // The enrollment is stored server-side, so refetch rather than patching the cache
+      queryClient.invalidateQueries({ queryKey: ["/api/wisdom-circuits/added"] });
+
       toast({
         title: "Success!",
         description: "Wisdom Circuit added to your dashboard.",
@@ -158,6 +163,15 @@ const Dashboard = () => {
     },
   });
 
+  // Join links from a teacher's QR code land here as /?join=CODE
+  useEffect(() => {
+    const joinCode = new URLSearchParams(window.location.search).get('join');
+    if (joinCode && user) {
+      addCircuitByCode.mutate(joinCode);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, [user?.id]);
+
   const handleAddCircuit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!circuitCode) {
@@ -197,6 +211,10 @@ const Dashboard = () => {
         homeworkPolicies: apiCircuits.find(c => c.id === Number(item.id))?.homeworkPolicies || ['guide'],
         responseTypes: apiCircuits.find(c => c.id === Number(item.id))?.responseTypes || ['detailed'],
         stateAlignment: apiCircuits.find(c => c.id === Number(item.id))?.stateAlignment || 'California',
+        welcomeMessage: apiCircuits.find(c => c.id === Number(item.id))?.welcomeMessage ?? null,
+        nudgesEnabled: apiCircuits.find(c => c.id === Number(item.id))?.nudgesEnabled ?? true,
+        nudgeIntervalMinutes: apiCircuits.find(c => c.id === Number(item.id))?.nudgeIntervalMinutes ?? null,
+        nudgeMessage: apiCircuits.find(c => c.id === Number(item.id))?.nudgeMessage ?? null,
         isArchived: false
       }))
     );
@@ -294,6 +312,34 @@ const Dashboard = () => {
     },
   });
 
+  const leaveCircuitMutation = useMutation({
+    mutationFn: async (circuitId: number) => {
+      const response = await fetch(`/api/wisdom-circuits/${circuitId}/enrollment`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to leave circuit");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wisdom-circuits/added"] });
+      toast({
+        title: "Success",
+        description: "Circuit removed from your dashboard",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const reorder = (list: any[], startIndex: number, endIndex: number) => {
     const result = Array.from(list);
     const [removed] = result.splice(startIndex, 1);
@@ -301,6 +347,11 @@ const Dashboard = () => {
     return result;
   };
 
+  // Guardian accounts have their own read-only dashboard
+  if (user?.isGuardian && !user.isTeacher) {
+    return <Redirect to="/guardian" />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 p-4">
       <div className="container mx-auto max-w-7xl px-4">
@@ -366,6 +417,12 @@ const Dashboard = () => {
                   <Settings className="mr-2 h-4 w-4" />
                   <span>Settings</span>
                 </DropdownMenuItem>
+                {!user?.isTeacher && (
+                  <DropdownMenuItem onClick={() => setShowGuardianInvite(true)}>
+                    <Users className="mr-2 h-4 w-4" />
+                    <span>Invite a Parent</span>
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem
                   onClick={() => logoutMutation.mutate()}
                 >
@@ -384,10 +441,17 @@ const Dashboard = () => {
           archivedCircuits={archivedCircuits}
           onArchive={(circuit) => archiveCircuitMutation.mutate(circuit.id)}
           onUnarchive={(circuit) => unarchiveCircuitMutation.mutate(circuit.id)}
-          onDelete={(circuit) => deleteCircuitMutation.mutate(circuit.id)}
+          onDelete={(circuit) => circuit.teacherId === user?.id
+            ? deleteCircuitMutation.mutate(circuit.id)
+            : leaveCircuitMutation.mutate(circuit.id)}
           onCircuitClick={() => { }}
         />
 
+        <GuardianInviteDialog
+          open={showGuardianInvite}
+          onOpenChange={setShowGuardianInvite}
+        />
+
         <DragDropContext onDragEnd={onDragEnd}>
           <Droppable droppableId="circuits" direction="horizontal">
             {(provided, snapshot) => (
@@ -433,9 +497,24 @@ const Dashboard = () => {
                           </div>
 
                           <div className="relative z-10">
-                            <span className={`text-sm font-bold uppercase tracking-wider ${circuit.accentColor}`}>
-                              {circuit.subject}
-                            </span>
+                            <div className="flex items-start justify-between gap-2">
+                              <span className={`text-sm font-bold uppercase tracking-wider ${circuit.accentColor}`}>
+                                {circuit.subject}
+                              </span>
+                              {circuit.flashcardsDue > 0 && (
+                                <button
+                                  title="Review flashcards"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setReviewCircuit(circuit);
+                                  }}
+                                  className={`flex shrink-0 items-center gap-1 rounded-full bg-white/80 px-2 py-0.5 text-xs font-semibold shadow-sm hover:bg-white ${circuit.accentColor}`}
+                                >
+                                  <Layers className="h-3 w-3" />
+                                  {circuit.flashcardsDue} due
+                                </button>
+                              )}
+                            </div>
 
                             <h2 className="text-xl font-bold text-gray-800 mt-4 tracking-tight group-hover:text-opacity-80">
                               {circuit.teacher}
@@ -462,6 +541,13 @@ const Dashboard = () => {
           onClose={() => setSelectedCircuit(null)}
         />
 
+        <FlashcardReviewDialog
+          circuitId={reviewCircuit ? parseInt(reviewCircuit.id) : 0}
+          subject={reviewCircuit?.subject ?? ''}
+          open={!!reviewCircuit}
+          onOpenChange={(open) => !open && setReviewCircuit(null)}
+        />
+
         <Footer />
       </div>
     </div>
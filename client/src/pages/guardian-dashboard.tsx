@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { type GuardianStudentOverview } from "@shared/schema";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Footer } from "@/components/ui/footer";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, LogOut } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+export function GuardianDashboard() {
+  const { user, logoutMutation } = useAuth();
+  const { toast } = useToast();
+  const [inviteCode, setInviteCode] = useState('');
+
+  const { data: students = [], isLoading } = useQuery<GuardianStudentOverview[]>({
+    queryKey: ["/api/guardian/students"],
+    enabled: !!user?.isGuardian,
+  });
+
+  const acceptInviteMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest('POST', `/api/guardian-invites/${encodeURIComponent(code)}/accept`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guardian/students"] });
+      setInviteCode('');
+      toast({
+        title: 'Success',
+        description: 'Student linked to your account',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Invite links land here as /guardian?invite=CODE
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('invite');
+    if (code && user) {
+      acceptInviteMutation.mutate(code);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, [user?.id]);
+
+  const handleAcceptInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (inviteCode.trim()) {
+      acceptInviteMutation.mutate(inviteCode.trim());
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 min-h-screen flex flex-col">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Family Dashboard</h1>
+          <p className="text-gray-600">See what your students are learning</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <form onSubmit={handleAcceptInvite} className="flex gap-2">
+            <Input
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+              placeholder="Enter invite code"
+              className="w-48"
+            />
+            <Button type="submit" variant="outline" disabled={acceptInviteMutation.isPending}>
+              Link Student
+            </Button>
+          </form>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" className="relative h-14 w-14 rounded-full">
+                <img
+                  src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${user?.displayName || 'default'}`}
+                  alt="User avatar"
+                  className="h-full w-full rounded-full"
+                />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+              <DropdownMenuLabel>My Account</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => logoutMutation.mutate()}>
+                <LogOut className="mr-2 h-4 w-4" />
+                <span>Log out</span>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+        </div>
+      ) : students.length === 0 ? (
+        <div className="text-center text-gray-500 py-16">
+          No students linked yet. Ask your student or their teacher for an invite code.
+        </div>
+      ) : (
+        <div className="space-y-8 mb-8">
+          {students.map(({ student, circuits }) => (
+            <div key={student.id} className="space-y-4">
+              <h2 className="text-xl font-semibold">{student.displayName || student.email}</h2>
+              {circuits.length === 0 ? (
+                <p className="text-sm text-gray-500">No shared circuits yet.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {circuits.map((circuit) => (
+                    <Card key={circuit.id}>
+                      <CardHeader>
+                        <CardTitle>{circuit.name}</CardTitle>
+                        <p className="text-sm text-gray-600">
+                          {circuit.grade === 'K' ? 'Kindergarten' : `Grade ${circuit.grade}`} · {circuit.teacherName}
+                        </p>
+                      </CardHeader>
+                      <CardContent>
+                        {circuit.weeklyMessages !== undefined ? (
+                          <div className="grid grid-cols-2 gap-4">
+                            <div className="bg-muted/50 p-4 rounded-lg text-center">
+                              <div className="text-2xl font-bold">{circuit.weeklyMessages}</div>
+                              <div className="text-sm text-gray-600">Questions this week</div>
+                            </div>
+                            <div className="bg-muted/50 p-4 rounded-lg text-center">
+                              <div className="text-sm font-bold">
+                                {circuit.lastActiveAt
+                                  ? formatDistanceToNow(new Date(circuit.lastActiveAt), { addSuffix: true })
+                                  : 'Not yet'}
+                              </div>
+                              <div className="text-sm text-gray-600">Last active</div>
+                            </div>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-gray-500">The teacher has not shared usage for this circuit.</p>
+                        )}
+                        {circuit.conversations && (
+                          <div className="mt-4 space-y-2">
+                            <h4 className="text-sm font-semibold">Recent conversations</h4>
+                            {circuit.conversations.length === 0 ? (
+                              <p className="text-sm text-gray-500">No conversations yet.</p>
+                            ) : (
+                              circuit.conversations.map((conversation) => (
+                                <div key={conversation.id} className="text-sm">
+                                  <div className="truncate">{conversation.title}</div>
+                                  <div className="text-xs text-gray-500">
+                                    {format(new Date(conversation.updatedAt), 'PP')} · {conversation.messageCount} messages
+                                  </div>
+                                </div>
+                              ))
+                            )}
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Footer />
+    </div>
+  );
+}
+
+export default GuardianDashboard;
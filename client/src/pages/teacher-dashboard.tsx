@@ -1,15 +1,16 @@
 import { useState, useRef, useEffect } from 'react';
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertWisdomCircuitSchema, type InsertWisdomCircuit, type WisdomCircuit } from "@shared/schema";
+import { insertWisdomCircuitSchema, type InsertWisdomCircuit, type WisdomCircuit, type CircuitMemberEntry, type JoinRequest, type CrisisAlertEntry } from "@shared/schema";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Mic, FileUp, LogOut, Volume2, Copy, PlusCircle, RefreshCw, Settings, Trash2, BookOpen } from 'lucide-react';
+import { Mic, FileUp, LogOut, Volume2, PlusCircle, RefreshCw, Settings, Trash2, BookOpen, Users, UserCheck, AlertTriangle } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
@@ -18,7 +19,25 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import CircuitCard from '@/components/circuit-card';
+import { CircuitRoster } from '@/components/circuit-roster';
+import { CircuitJoinCode } from '@/components/circuit-join-code';
+import { CircuitSections } from '@/components/circuit-sections';
+import { CircuitReportSummary } from '@/components/circuit-report-summary';
+import { CircuitPolicyAudit } from '@/components/circuit-policy-audit';
+import { CircuitModerationFlags } from '@/components/circuit-moderation-flags';
+import { CircuitFeedbackQueue } from '@/components/circuit-feedback-queue';
+import { CircuitQuizResults } from '@/components/circuit-quiz-results';
+import { CircuitFlashcards } from '@/components/circuit-flashcards';
+import { CircuitTranscripts } from '@/components/circuit-transcripts';
+import { CircuitLiveChats } from '@/components/circuit-live-chats';
+import { CircuitMembers } from '@/components/circuit-members';
+import { CircuitGuardianVisibility } from '@/components/circuit-guardian-visibility';
 import { UserSettingsDialog } from '@/components/user-settings-dialog';
+import { RosterImportDialog } from '@/components/roster-import-dialog';
+import { JoinRequestsDialog } from '@/components/join-requests-dialog';
+import { CrisisAlertsDialog } from '@/components/crisis-alerts-dialog';
+import { CircuitJoinApproval } from '@/components/circuit-join-approval';
+import { CircuitChatSettings } from '@/components/circuit-chat-settings';
 import { Checkbox } from "@/components/ui/checkbox";
 import { format } from 'date-fns';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
@@ -30,6 +49,9 @@ export function TeacherDashboard() {
   const { toast } = useToast();
   const [selectedCircuit, setSelectedCircuit] = useState<WisdomCircuit | null>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showJoinRequestsDialog, setShowJoinRequestsDialog] = useState(false);
+  const [showCrisisAlertsDialog, setShowCrisisAlertsDialog] = useState(false);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
   const [isGeneratingDescription, setIsGeneratingDescription] = useState(false);
   const [previousName, setPreviousName] = useState('');
@@ -50,12 +72,33 @@ export function TeacherDashboard() {
     staleTime: 1000,
   });
 
+  // Co-teachers and TAs of the open circuit, used to work out the current user's role
+  const { data: selectedCircuitMembers = [] } = useQuery<CircuitMemberEntry[]>({
+    queryKey: [`/api/wisdom-circuits/${selectedCircuit?.id}/members`],
+    enabled: !!selectedCircuit,
+    staleTime: 1000,
+  });
+  const isTeachingAssistant = !!selectedCircuit && selectedCircuit.teacherId !== user?.id &&
+    selectedCircuitMembers.find(member => member.userId === user?.id)?.role === 'ta';
+
   const { data: archivedCircuits = [], isLoading: isLoadingArchived } = useQuery<WisdomCircuit[]>({
     queryKey: ["/api/wisdom-circuits/archived"],
     retry: 3,
     staleTime: 1000,
   });
 
+  // Poll so new requests show up while the dashboard stays open
+  const { data: joinRequests = [] } = useQuery<JoinRequest[]>({
+    queryKey: ["/api/wisdom-circuits/join-requests"],
+    refetchInterval: 30000,
+  });
+
+  // Crisis alerts are urgent, so they are polled the same way
+  const { data: crisisAlerts = [] } = useQuery<CrisisAlertEntry[]>({
+    queryKey: ["/api/crisis-alerts"],
+    refetchInterval: 30000,
+  });
+
   // Archive circuit mutation
   const archiveCircuitMutation = useMutation({
     mutationFn: async (circuit: WisdomCircuit) => {
@@ -542,6 +585,36 @@ export function TeacherDashboard() {
           <p className="text-gray-600">Manage your Wisdom Circuits</p>
         </div>
         <div className="flex items-center gap-4">
+          <Button
+            variant={crisisAlerts.length > 0 ? "destructive" : "outline"}
+            onClick={() => setShowCrisisAlertsDialog(true)}
+            className="flex items-center gap-2"
+          >
+            <AlertTriangle className="h-4 w-4" />
+            Urgent Alerts
+            {crisisAlerts.length > 0 && (
+              <Badge variant="secondary">{crisisAlerts.length}</Badge>
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowJoinRequestsDialog(true)}
+            className="flex items-center gap-2"
+          >
+            <UserCheck className="h-4 w-4" />
+            Join Requests
+            {joinRequests.length > 0 && (
+              <Badge variant="destructive">{joinRequests.length}</Badge>
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowImportDialog(true)}
+            className="flex items-center gap-2"
+          >
+            <Users className="h-4 w-4" />
+            Import Roster
+          </Button>
           <Button
             onClick={() => setShowCreateDialog(true)}
             className="flex items-center gap-2"
@@ -587,6 +660,26 @@ export function TeacherDashboard() {
         onCircuitClick={handleCircuitClick}
       />
 
+      {/* Roster Import Dialog */}
+      <RosterImportDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        circuits={activeCircuits}
+      />
+
+      {/* Join Requests Dialog */}
+      <JoinRequestsDialog
+        open={showJoinRequestsDialog}
+        onOpenChange={setShowJoinRequestsDialog}
+        requests={joinRequests}
+      />
+
+      {/* Crisis Alerts Dialog */}
+      <CrisisAlertsDialog
+        open={showCrisisAlertsDialog}
+        onOpenChange={setShowCrisisAlertsDialog}
+      />
+
       {/* Create Circuit Dialog */}
       <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
         <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
@@ -911,10 +1004,15 @@ export function TeacherDashboard() {
                   {circuit.description}
                 </p>
 
-                <div className="mt-4 flex items-center text-sm text-gray-500">
+                <div className="mt-4 flex items-center gap-2 text-sm text-gray-500">
                   <span className="inline-block px-2 py-1 bg-blue-100 text-blue-700 rounded">
                     Code: {circuit.code}
                   </span>
+                  {circuit.teacherId !== user?.id && (
+                    <span className="inline-block px-2 py-1 bg-purple-100 text-purple-700 rounded">
+                      Shared by {circuit.teacherName}
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
@@ -933,10 +1031,22 @@ export function TeacherDashboard() {
               </DialogDescription>
             </DialogHeader>
 
-            <Tabs defaultValue="content" className="flex-1">
+            {/* Teaching assistants only see reports; remount once their role is known */}
+            <Tabs
+              key={isTeachingAssistant ? 'ta' : 'teacher'}
+              defaultValue={isTeachingAssistant ? 'reports' : 'content'}
+              className="flex-1"
+            >
               <TabsList>
-                <TabsTrigger value="content">Content</TabsTrigger>
-                <TabsTrigger value="settings">Settings</TabsTrigger>
+                {!isTeachingAssistant && (
+                  <>
+                    <TabsTrigger value="content">Content</TabsTrigger>
+                    <TabsTrigger value="settings">Settings</TabsTrigger>
+                    <TabsTrigger value="roster">Roster</TabsTrigger>
+                    <TabsTrigger value="live">Live</TabsTrigger>
+                  </>
+                )}
+                <TabsTrigger value="conversations">Conversations</TabsTrigger>
                 <TabsTrigger value="reports">Reports</TabsTrigger>
               </TabsList>
 
@@ -1107,6 +1217,8 @@ export function TeacherDashboard() {
                         )}
                       </div>
                     </div>
+
+                    <CircuitFlashcards circuitId={selectedCircuit.id} content={circuitContent} />
                   </div>
                 </ScrollArea>
               </TabsContent>
@@ -1317,26 +1429,57 @@ export function TeacherDashboard() {
                       </div>
                     </form>
 
-                    <div className="flex items-center gap-2 bg-muted/50 p-4 rounded-lg">
-                      <span className="text-sm font-medium">Circuit Code: {selectedCircuit.code}</span>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={async () => {
-                          try {
-                            await navigator.clipboard.writeText(selectedCircuit.code || '');
-                            toast({
-                              title: "Copied!",
-                              description: "Circuit code copied to clipboard",
-                            });
-                          } catch (err) {
-                            console.error('Failed to copy:', err);
-                          }
-                        }}
-                      >
-                        <Copy className="h-4 w-4" />
-                      </Button>
-                    </div>
+                    <CircuitJoinCode
+                      key={selectedCircuit.id}
+                      label="Circuit Code"
+                      title={selectedCircuit.name}
+                      teacherName={selectedCircuit.teacherName}
+                      joinCode={selectedCircuit}
+                      codeUrl={`/api/wisdom-circuits/${selectedCircuit.id}/code`}
+                      onUpdated={(updatedCircuit) => {
+                        queryClient.invalidateQueries({ queryKey: ['/api/wisdom-circuits'] });
+                        setSelectedCircuit(updatedCircuit);
+                      }}
+                    />
+
+                    <CircuitJoinApproval
+                      circuit={selectedCircuit}
+                      onCircuitUpdated={setSelectedCircuit}
+                    />
+
+                    <CircuitMembers circuit={selectedCircuit} />
+
+                    <CircuitChatSettings
+                      key={selectedCircuit.id}
+                      circuit={selectedCircuit}
+                      onCircuitUpdated={setSelectedCircuit}
+                    />
+
+                    <CircuitGuardianVisibility
+                      circuit={selectedCircuit}
+                      onCircuitUpdated={setSelectedCircuit}
+                    />
+                  </div>
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="roster" className="flex-1 overflow-y-auto">
+                <ScrollArea className="h-[calc(90vh-180px)]">
+                  <div className="space-y-8 pr-4">
+                    <CircuitSections circuit={selectedCircuit} />
+                    <CircuitRoster circuitId={selectedCircuit.id} />
+                  </div>
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="live" className="flex-1 overflow-y-auto">
+                <CircuitLiveChats key={selectedCircuit.id} circuitId={selectedCircuit.id} />
+              </TabsContent>
+
+              <TabsContent value="conversations" className="flex-1 overflow-y-auto">
+                <ScrollArea className="h-[calc(90vh-180px)]">
+                  <div className="pr-4">
+                    <CircuitTranscripts key={selectedCircuit.id} circuitId={selectedCircuit.id} />
                   </div>
                 </ScrollArea>
               </TabsContent>
@@ -1390,29 +1533,15 @@ export function TeacherDashboard() {
                       </Card>
                     </div>
 
-                    <Card>
-                      <CardHeader>
-                        <CardTitle>Weekly Activity Summary</CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="space-y-4">
-                          <div className="grid grid-cols-3 gap-4">
-                            <div className="bg-muted/50 p-4 rounded-lg text-center">
-                              <div className="text-2xl font-bold">24</div>
-                              <div className="text-sm text-gray-600">Active Students</div>
-                            </div>
-                            <div className="bg-muted/50 p-4 rounded-lg text-center">
-                              <div className="text-2xl font-bold">18</div>
-                              <div className="text-sm text-gray-600">New Contents</div>
-                            </div>
-                            <div className="bg-muted/50 p-4 rounded-lg text-center">
-                              <div className="text-2xl font-bold">89%</div>
-                              <div className="text-sm text-gray-600">Completion Rate</div>
-                            </div>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
+                    <CircuitReportSummary circuitId={selectedCircuit.id} />
+
+                    <CircuitModerationFlags circuitId={selectedCircuit.id} />
+
+                    <CircuitFeedbackQueue circuitId={selectedCircuit.id} canCorrect={!isTeachingAssistant} />
+
+                    <CircuitQuizResults circuitId={selectedCircuit.id} />
+
+                    <CircuitPolicyAudit circuitId={selectedCircuit.id} />
                   </div>
                 </ScrollArea>
               </TabsContent>
@@ -1,6 +1,7 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response } from "express";
+import type { IncomingMessage } from "http";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
@@ -15,7 +16,7 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string): Promise<string> {
+export async function hashPassword(password: string): Promise<string> {
   const salt = randomBytes(16).toString('hex');
   const derivedKey = (await scryptAsync(password, salt, 32)) as Buffer;
   return `${derivedKey.toString('hex')}.${salt}`;
@@ -38,21 +39,57 @@ async function comparePasswords(supplied: string, stored: string | null): Promis
   }
 }
 
+const sessionMiddleware = session({
+  secret: process.env.SESSION_SECRET || 'dev_secret_key',
+  resave: false,
+  saveUninitialized: false,
+  store: storage.sessionStore,
+  name: 'wisdom.sid',
+  cookie: {
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 24 * 60 * 60 * 1000
+  }
+});
+
+// Browsers send the session cookie with WebSocket upgrades from any site, so
+// only accept upgrades whose page was served by this app
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  const host = req.headers['x-forwarded-host'] ?? req.headers.host;
+  if (!origin || !host) return false;
+
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// WebSocket upgrades never pass through Express, so run the session and
+// passport middleware by hand to find out who is connecting
+export function authenticateUpgrade(req: IncomingMessage): Promise<SelectUser | undefined> {
+  const request = req as Request;
+  const response = {} as Response;
+
+  if (!isSameOrigin(req)) return Promise.resolve(undefined);
+
+  return new Promise((resolve) => {
+    sessionMiddleware(request, response, (sessionError?: unknown) => {
+      if (sessionError) return resolve(undefined);
+      passport.initialize()(request, response, () => {
+        passport.session()(request, response, (passportError?: unknown) => {
+          resolve(passportError ? undefined : request.user);
+        });
+      });
+    });
+  });
+}
+
 export function setupAuth(app: Express) {
   app.set('trust proxy', 1);
 
-  app.use(session({
-    secret: process.env.SESSION_SECRET || 'dev_secret_key',
-    resave: false,
-    saveUninitialized: false,
-    store: storage.sessionStore,
-    name: 'wisdom.sid',
-    cookie: {
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 24 * 60 * 60 * 1000
-    }
-  }));
+  app.use(sessionMiddleware);
 
   app.use(passport.initialize());
   app.use(passport.session());
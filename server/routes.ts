@@ -1,9 +1,8 @@
 import express from 'express';
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import multer from "multer";
 import { storage } from "./storage";
-import { insertWisdomCircuitSchema, insertCircuitContentSchema } from "@shared/schema";
+import { insertWisdomCircuitSchema, insertCircuitContentSchema, canManageCircuit } from "@shared/schema";
 import { ZodError } from "zod";
 import { setupAuth } from "./auth";
 import OpenAI from "openai";
@@ -11,7 +10,22 @@ import { Readable } from 'stream';
 import { File } from '@web-std/file';
 import wisdomCircuitsRouter from './routes/wisdom-circuits';
 import circuitChatRouter from './routes/circuit-chat';
+import circuitSectionsRouter from './routes/circuit-sections';
+import rosterImportRouter from './routes/roster-import';
+import circuitMembersRouter from './routes/circuit-members';
+import guardiansRouter from './routes/guardians';
+import joinRequestsRouter from './routes/join-requests';
+import conversationsRouter from './routes/conversations';
+import policyInterventionsRouter from './routes/policy-interventions';
+import moderationFlagsRouter from './routes/moderation-flags';
+import crisisAlertsRouter from './routes/crisis-alerts';
+import transcriptsRouter from './routes/transcripts';
+import messageFeedbackRouter from './routes/message-feedback';
+import practiceQuizzesRouter from './routes/practice-quizzes';
+import flashcardsRouter from './routes/flashcards';
+import { liveChatService } from './services/live-chat';
 import { generateCircuitDescription } from './openai';
+import { upload } from './uploads';
 import path from 'path';
 import fs from 'fs';
 import { promisify } from 'util';
@@ -26,31 +40,25 @@ const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
-// Configure multer for file uploads
-const upload = multer({
-  storage: multer.diskStorage({
-    destination: 'uploads/',
-    filename: (req, file, cb) => {
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-      cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-    }
-  }),
-  limits: {
-    fileSize: 10 * 1024 * 1024 // 10MB limit
-  }
-});
-
-// Ensure uploads directory exists
-if (!fs.existsSync('uploads')) {
-  fs.mkdirSync('uploads');
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
   setupAuth(app);
 
   // Register the routers
   app.use('/api', wisdomCircuitsRouter);
   app.use('/api', circuitChatRouter);
+  app.use('/api', circuitSectionsRouter);
+  app.use('/api', rosterImportRouter);
+  app.use('/api', circuitMembersRouter);
+  app.use('/api', guardiansRouter);
+  app.use('/api', joinRequestsRouter);
+  app.use('/api', conversationsRouter);
+  app.use('/api', policyInterventionsRouter);
+  app.use('/api', moderationFlagsRouter);
+  app.use('/api', crisisAlertsRouter);
+  app.use('/api', transcriptsRouter);
+  app.use('/api', messageFeedbackRouter);
+  app.use('/api', practiceQuizzesRouter);
+  app.use('/api', flashcardsRouter);
 
   // Add endpoint to generate circuit descriptions
   app.post("/api/generate-description", async (req, res) => {
@@ -193,6 +201,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid circuit ID" });
       }
 
+      // Verify the user teaches this circuit
+      const role = await storage.getCircuitRole(circuitId, req.user.id);
+      if (!canManageCircuit(role)) {
+        return res.status(403).json({ message: "You can only upload content to circuits you teach" });
+      }
+
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
@@ -308,7 +322,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const content = await storage.archiveCircuitContent(parseInt(req.params.id));
+      const contentId = parseInt(req.params.id);
+      const existingContent = await storage.getCircuitContentById(contentId);
+      if (!existingContent) {
+        return res.status(404).json({ message: "Content not found" });
+      }
+
+      // Verify the user teaches this circuit
+      const role = await storage.getCircuitRole(existingContent.circuitId, req.user.id);
+      if (!canManageCircuit(role)) {
+        return res.status(403).json({ message: "You can only delete content from circuits you teach" });
+      }
+
+      const content = await storage.archiveCircuitContent(contentId);
       res.json(content);
     } catch (error) {
       res.status(500).json({ message: "Failed to delete content" });
@@ -318,5 +344,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/uploads', express.static('uploads'));
 
   const httpServer = createServer(app);
+  liveChatService.attach(httpServer);
   return httpServer;
 }
\ No newline at end of file
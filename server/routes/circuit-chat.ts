@@ -1,46 +1,382 @@
-import { Router } from "express";
-import { OpenAIService } from "../services/openai-service";
+import { Router, type NextFunction, type Request, type Response } from "express";
+import fs from "fs";
+import { promisify } from "util";
+import { type ChatStreamEvents, type Citation, type Conversation, type Message } from "@shared/schema";
+import { OpenAIService, type ChatImage } from "../services/openai-service";
+import { chatHistoryService } from "../services/chat-history";
+import { homeworkGuardrailService } from "../services/homework-guardrail";
+import { moderationService, type ModerationOutcome } from "../services/moderation";
+import { crisisDetectionService } from "../services/crisis-detection";
+import { liveChatService } from "../services/live-chat";
+import { correctedAnswerService } from "../services/corrected-answers";
+import { citationService } from "../services/citations";
+import { chatSuggestionService } from "../services/chat-suggestions";
 import { storage } from "../storage";
+import { imageUpload, detectImageType } from "../uploads";
+
+const readFile = promisify(fs.readFile);
 
 const router = Router();
 
-router.post("/api/circuit/:circuitId/chat", async (req, res) => {
-  try {
-    const circuitId = parseInt(req.params.circuitId);
-    const { message } = req.body;
+// Accepts an optional photo sent as multipart form data; JSON bodies pass
+// straight through. Anonymous requests are turned away before anything is saved.
+function chatImage(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
 
-    if (!message) {
-      return res.status(400).json({ error: "Message is required" });
+  imageUpload.single('image')(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : "Invalid image" });
     }
+    next();
+  });
+}
 
-    // Get circuit data
-    const circuit = await storage.getWisdomCircuit(circuitId);
-    if (!circuit) {
-      return res.status(404).json({ error: "Circuit not found" });
+// Remove a photo that was uploaded with a message that never got saved
+function discardUpload(req: Request) {
+  if (req.file) {
+    fs.unlink(req.file.path, (error) => {
+      if (error) console.error("Error removing unused upload:", error);
+    });
+  }
+}
+
+// Validate the request, save the student's message and build the tutor context.
+// Sends the error response and returns null when the chat cannot go ahead.
+async function prepareCircuitChat(req: Request, res: Response) {
+  if (!req.isAuthenticated()) {
+    res.status(401).json({ error: "Authentication required" });
+    return null;
+  }
+
+  const circuitId = parseInt(req.params.circuitId);
+  if (isNaN(circuitId)) {
+    res.status(400).json({ error: "Invalid circuit ID" });
+    return null;
+  }
+
+  const { conversationId } = req.body;
+  const message: string = typeof req.body.message === 'string' ? req.body.message : '';
+
+  let image: ChatImage | undefined;
+  if (req.file) {
+    const mimeType = await detectImageType(req.file.path);
+    if (!mimeType) {
+      res.status(400).json({ error: "Only JPEG, PNG, GIF and WebP images can be attached" });
+      return null;
     }
+    image = { mimeType, data: await readFile(req.file.path) };
+  }
 
-    // Get circuit content
-    const content = await storage.getCircuitContent(circuitId);
-    const processedContent = content.map(c => `${c.title}:\n${c.content || c.description}`);
+  // A photo can be sent on its own
+  if (!message.trim() && !image) {
+    res.status(400).json({ error: "Message is required" });
+    return null;
+  }
+
+  // Get circuit data
+  const circuit = await storage.getWisdomCircuit(circuitId);
+  if (!circuit) {
+    res.status(404).json({ error: "Circuit not found" });
+    return null;
+  }
+
+  // Only students actively enrolled in an open circuit may chat with its tutor
+  const enrollment = await storage.getEnrollment(circuitId, req.user.id);
+  if (!enrollment || enrollment.status !== 'active' || circuit.isArchived) {
+    res.status(403).json({ error: "You are not enrolled in this circuit" });
+    return null;
+  }
+
+  let conversation: Conversation | undefined;
+  if (conversationId) {
+    conversation = await storage.getConversation(parseInt(conversationId));
+    if (!conversation || conversation.studentId !== req.user.id || conversation.circuitId !== circuitId) {
+      res.status(404).json({ error: "Conversation not found" });
+      return null;
+    }
+  } else {
+    conversation = await storage.createConversation(circuitId, req.user.id, (message.trim() || 'Photo of my work').slice(0, 80));
+  }
 
-    // Create context for OpenAI
-    const context = {
-      circuit,
-      teachingStyles: circuit.teachingStyles || [],
-      homeworkPolicies: circuit.homeworkPolicies || [],
-      responseTypes: circuit.responseTypes || [],
-      stateAlignment: circuit.stateAlignment || "General",
-      uploadedContent: processedContent,
-    };
+  // Earlier turns give follow-up questions something to refer to
+  const history = await chatHistoryService.buildHistory(conversation);
+
+  // Serious content never reaches the model, and the teacher sees every flag.
+  // A disclosure of self-harm, abuse or danger gets a supportive script instead
+  // of a tutor reply, and the teacher and school counselor are alerted.
+  const screening = await moderationService.screenStudentMessage(message, circuit.grade, image);
+  const crisisCategories = crisisDetectionService.detect(message, screening.result);
+
+  // Count the message towards the student's usage of the circuit
+  await storage.recordEnrollmentActivity(circuitId, req.user.id);
+  const studentMessage = await storage.addMessage({
+    conversationId: conversation.id,
+    role: 'user',
+    content: message,
+    attachmentPath: req.file?.path ?? null,
+    attachmentType: image?.mimeType ?? null,
+    withheldFromModel: screening.action === 'blocked' || crisisCategories.length > 0,
+  });
+  liveChatService.publishMessage(conversation, studentMessage);
+
+  if (screening.result.flagged) {
+    await moderationService.recordFlag(conversation, studentMessage.id, 'student', message, screening);
+  }
+  if (crisisCategories.length > 0) {
+    await crisisDetectionService.escalate(conversation, circuit, studentMessage.id, message, crisisCategories);
+  }
+
+  // Get circuit content
+  const content = await storage.getCircuitContent(circuitId);
+  const knowledgeSources = content.map(c => ({
+    id: c.id,
+    title: c.title,
+    content: c.content || c.description || '',
+    contentUrl: c.contentUrl,
+  }));
+
+  // Create context for OpenAI from the stored circuit, never from the request
+  const context = {
+    circuit,
+    teachingStyles: (circuit.teachingStyles as string[] | null) || [],
+    homeworkPolicies: (circuit.homeworkPolicies as string[] | null) || [],
+    responseTypes: (circuit.responseTypes as string[] | null) || [],
+    stateAlignment: circuit.stateAlignment || "General",
+    knowledgeSources,
+    correctedAnswers: await correctedAnswerService.findSimilar(circuitId, message),
+  };
+
+  // The tutor stays quiet while a teacher is answering in person
+  const liveTeacher = conversation.takenOverBy ? await storage.getUser(conversation.takenOverBy) : undefined;
+
+  return {
+    message: message.trim() ? message : "Here is a photo of my work.",
+    image,
+    conversation,
+    context,
+    history,
+    pausedFor: liveTeacher ? liveTeacher.displayName || liveTeacher.email : null,
+    // Sent instead of asking the model when set; crisis resources go out even during a takeover
+    cannedReply: crisisCategories.length > 0
+      ? crisisDetectionService.supportiveReply(crisisCategories, true)
+      : !liveTeacher && screening.action === 'blocked' ? moderationService.blockedReply : null,
+  };
+}
+
+type CircuitChat = NonNullable<Awaited<ReturnType<typeof prepareCircuitChat>>>;
+
+// Save the tutor's reply with the content it cited, and flag it for the
+// teacher if moderation changed it. Scripted replies to withheld messages are
+// withheld along with them.
+async function saveReply(chat: CircuitChat, reply: string, draft: string, moderation: ModerationOutcome | null) {
+  const citations = citationService.extract(reply, chat.context.knowledgeSources);
+  const saved = await storage.addMessage({
+    conversationId: chat.conversation.id,
+    role: 'assistant',
+    content: reply,
+    citations: citations.length > 0 ? citations : null,
+    withheldFromModel: chat.cannedReply !== null,
+  });
+  liveChatService.publishMessage(chat.conversation, saved);
+  if (moderation?.result.flagged) {
+    await moderationService.recordFlag(chat.conversation, saved.id, 'assistant', draft, moderation);
+  }
+  return saved;
+}
+
+router.post("/circuit/:circuitId/chat", chatImage, async (req, res) => {
+  try {
+    const chat = await prepareCircuitChat(req, res);
+    if (!chat) return discardUpload(req);
+
+    if (chat.cannedReply) {
+      const saved = await saveReply(chat, chat.cannedReply, chat.cannedReply, null);
+      return res.json({ response: chat.cannedReply, conversationId: chat.conversation.id, messageId: saved.id, citations: saved.citations ?? [] });
+    }
+
+    if (chat.pausedFor) {
+      return res.json({ response: null, conversationId: chat.conversation.id, pausedFor: chat.pausedFor });
+    }
 
     // Process message with OpenAI
-    const response = await OpenAIService.processChatMessage(message, context);
+    const draft = await OpenAIService.processChatMessage(chat.message, chat.context, chat.history, chat.image);
+    const checked = await homeworkGuardrailService.enforce({
+      conversation: chat.conversation,
+      context: chat.context,
+      studentMessage: chat.message,
+      image: chat.image,
+      draft,
+    });
+    const moderation = await moderationService.screenReply(checked, chat.context.circuit.grade);
+    const saved = await saveReply(chat, moderation.text, checked, moderation);
 
-    res.json({ response });
+    res.json({ response: moderation.text, conversationId: chat.conversation.id, messageId: saved.id, citations: saved.citations ?? [] });
   } catch (error) {
     console.error("Chat Processing Error:", error);
     res.status(500).json({ error: "Failed to process chat message" });
   }
 });
 
-export default router;
\ No newline at end of file
+// Same as the chat endpoint, but sends the response as Server-Sent Events:
+// a `start` event with the conversation ID, `token` events as the reply
+// passes moderation a sentence at a time, then `done` with the saved
+// message's ID and citations (or `error`). A `replace` event swaps out everything sent so
+// far when moderation blocks the reply part way through. Closing the connection stops generation. Circuits
+// with a homework guardrail get the checked reply in one token once it is ready.
+// While a teacher has taken the conversation over, a `paused` event takes the
+// place of the reply.
+router.post("/circuit/:circuitId/chat/stream", chatImage, async (req, res) => {
+  let chat: CircuitChat | null = null;
+  try {
+    chat = await prepareCircuitChat(req, res);
+  } catch (error) {
+    console.error("Chat Processing Error:", error);
+    discardUpload(req);
+    return res.status(500).json({ error: "Failed to process chat message" });
+  }
+  if (!chat) return discardUpload(req);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+
+  const sendEvent = <Event extends keyof ChatStreamEvents>(event: Event, data: ChatStreamEvents[Event]) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // The student pressed stop or closed the modal
+  const upstream = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      upstream.abort();
+    }
+  });
+
+  sendEvent('start', { conversationId: chat.conversation.id });
+
+  // A teacher has taken over; their replies arrive over the live chat socket
+  if (chat.pausedFor && !chat.cannedReply) {
+    sendEvent('paused', { teacherName: chat.pausedFor });
+    sendEvent('done', { conversationId: chat.conversation.id });
+    return res.end();
+  }
+
+  // Hold back tokens until the guardrail has checked the whole reply
+  const guarded = homeworkGuardrailService.appliesTo(chat.context);
+  const screener = moderationService.createReplyScreener(chat.context.circuit.grade);
+
+  let draft = '';
+  let response = '';
+  let moderation: ModerationOutcome | null = null;
+
+  // Returns false once the reply has been blocked and generation should stop
+  const sendScreened = (outcome: ModerationOutcome | null) => {
+    if (!outcome) return true;
+    if (outcome.action === 'blocked') {
+      response = outcome.text;
+      sendEvent('replace', { text: outcome.text });
+      return false;
+    }
+    response += outcome.text;
+    sendEvent('token', { token: outcome.text });
+    return true;
+  };
+
+  try {
+    if (chat.cannedReply) {
+      draft = chat.cannedReply;
+      response = chat.cannedReply;
+      sendEvent('token', { token: chat.cannedReply });
+    } else {
+      let blocked = false;
+      for await (const token of OpenAIService.streamChatMessage(chat.message, chat.context, chat.history, chat.image, upstream.signal)) {
+        draft += token;
+        if (!guarded && !sendScreened(await screener.push(token))) {
+          blocked = true;
+          break;
+        }
+      }
+
+      if (guarded && draft) {
+        const checked = await homeworkGuardrailService.enforce({
+          conversation: chat.conversation,
+          context: chat.context,
+          studentMessage: chat.message,
+          image: chat.image,
+          draft,
+        });
+        moderation = await moderationService.screenReply(checked, chat.context.circuit.grade);
+        if (!upstream.signal.aborted) {
+          response = moderation.text;
+          sendEvent('token', { token: moderation.text });
+        }
+      } else if (!guarded && !blocked) {
+        sendScreened(await screener.flush());
+      }
+    }
+  } catch (error) {
+    if (!upstream.signal.aborted) {
+      console.error("Chat Streaming Error:", error);
+      sendEvent('error', { error: "Failed to process chat message" });
+    }
+  }
+
+  if (!guarded && !chat.cannedReply) {
+    moderation = screener.summary(response);
+  }
+
+  // Save whatever the student saw, even when they stopped it early
+  let saved: Message | null = null;
+  try {
+    if (response) {
+      saved = await saveReply(chat, response, draft, moderation);
+    }
+  } catch (error) {
+    console.error("Error saving streamed message:", error);
+  }
+
+  if (!upstream.signal.aborted) {
+    sendEvent('done', { conversationId: chat.conversation.id, messageId: saved?.id ?? null, citations: (saved?.citations as Citation[] | null) ?? [] });
+    res.end();
+  }
+});
+
+// Suggested questions shown above the chat box, for enrolled students and the
+// circuit's teachers previewing them
+router.get("/circuit/:circuitId/suggestions", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const circuitId = parseInt(req.params.circuitId);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    const enrollment = await storage.getEnrollment(circuitId, req.user.id);
+    if (enrollment?.status !== 'active' && !(await storage.getCircuitRole(circuitId, req.user.id))) {
+      return res.status(403).json({ error: "You are not enrolled in this circuit" });
+    }
+
+    const suggestions = await chatSuggestionService.forCircuit(circuit);
+    res.json(suggestions);
+  } catch (error: any) {
+    console.error("Error fetching chat suggestions:", error);
+    res.status(500).json({
+      error: "Failed to fetch chat suggestions",
+      details: error.message
+    });
+  }
+});
+
+export default router;
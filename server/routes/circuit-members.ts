@@ -0,0 +1,127 @@
+import { Router } from "express";
+import { ZodError } from "zod";
+import { addCircuitMemberSchema } from "@shared/schema";
+import { storage } from "../storage";
+
+const router = Router();
+
+// Get the co-teachers and TAs of a circuit
+router.get("/wisdom-circuits/:id/members", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can view circuit members" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only view members of circuits you teach" });
+    }
+
+    const members = await storage.getCircuitMembers(circuitId);
+    res.json(members);
+  } catch (error: any) {
+    console.error("Error fetching circuit members:", error);
+    res.status(500).json({
+      error: "Failed to fetch circuit members",
+      details: error.message
+    });
+  }
+});
+
+// Add a co-teacher or TA by email, or change the role of an existing member
+router.post("/wisdom-circuits/:id/members", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can add circuit members" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Only the owner decides who else manages the circuit
+    if (circuit.teacherId !== req.user.id) {
+      return res.status(403).json({ error: "Only the circuit owner can add members" });
+    }
+
+    const { email, role } = addCircuitMemberSchema.parse(req.body);
+    const user = await storage.getUserByEmailIgnoreCase(email.trim());
+    if (!user || !user.isTeacher) {
+      return res.status(404).json({ error: "No teacher account exists with that email" });
+    }
+    if (user.id === circuit.teacherId) {
+      return res.status(400).json({ error: "The circuit owner is already a member" });
+    }
+
+    const member = await storage.addCircuitMember({ circuitId, userId: user.id, role });
+    res.status(201).json(member);
+  } catch (error: any) {
+    console.error("Error adding circuit member:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid member data",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to add circuit member",
+      details: error.message
+    });
+  }
+});
+
+// Remove a member; members may also remove themselves
+router.delete("/wisdom-circuits/:id/members/:userId", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can remove circuit members" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    const userId = parseInt(req.params.userId);
+    if (isNaN(circuitId) || isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid circuit or user ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    if (circuit.teacherId !== req.user.id && userId !== req.user.id) {
+      return res.status(403).json({ error: "Only the circuit owner can remove members" });
+    }
+
+    const member = await storage.removeCircuitMember(circuitId, userId);
+    if (!member) {
+      return res.status(404).json({ error: "Member not found" });
+    }
+
+    res.json(member);
+  } catch (error: any) {
+    console.error("Error removing circuit member:", error);
+    res.status(500).json({
+      error: "Failed to remove circuit member",
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,198 @@
+import { Router } from "express";
+import { ZodError } from "zod";
+import { insertCircuitSectionSchema, circuitCodeSettingsSchema, canManageCircuit } from "@shared/schema";
+import { storage } from "../storage";
+
+const router = Router();
+
+// Get all sections of a circuit
+router.get("/wisdom-circuits/:id/sections", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can view circuit sections" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only view sections of circuits you teach" });
+    }
+
+    const sections = await storage.getCircuitSections(circuitId);
+    res.json(sections);
+  } catch (error: any) {
+    console.error("Error fetching sections:", error);
+    res.status(500).json({
+      error: "Failed to fetch sections",
+      details: error.message
+    });
+  }
+});
+
+// Create a section with its own join code
+router.post("/wisdom-circuits/:id/sections", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can create circuit sections" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only add sections to circuits you teach" });
+    }
+
+    const sectionData = insertCircuitSectionSchema.parse({ ...req.body, circuitId });
+    const section = await storage.createCircuitSection(sectionData);
+    res.status(201).json(section);
+  } catch (error: any) {
+    console.error("Error creating section:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid section data",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to create section",
+      details: error.message
+    });
+  }
+});
+
+// Delete a section; its students stay enrolled in the circuit
+router.delete("/wisdom-circuits/:id/sections/:sectionId", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can delete circuit sections" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    const sectionId = parseInt(req.params.sectionId);
+    if (isNaN(circuitId) || isNaN(sectionId)) {
+      return res.status(400).json({ error: "Invalid circuit or section ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    const section = await storage.getCircuitSection(sectionId);
+    if (!circuit || !section || section.circuitId !== circuitId) {
+      return res.status(404).json({ error: "Section not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only delete sections of circuits you teach" });
+    }
+
+    const deletedSection = await storage.deleteCircuitSection(sectionId);
+    res.json(deletedSection);
+  } catch (error: any) {
+    console.error("Error deleting section:", error);
+    res.status(500).json({
+      error: "Failed to delete section",
+      details: error.message
+    });
+  }
+});
+
+// Replace a section's join code
+router.post("/wisdom-circuits/:id/sections/:sectionId/code/regenerate", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can change section codes" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    const sectionId = parseInt(req.params.sectionId);
+    if (isNaN(circuitId) || isNaN(sectionId)) {
+      return res.status(400).json({ error: "Invalid circuit or section ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    const section = await storage.getCircuitSection(sectionId);
+    if (!circuit || !section || section.circuitId !== circuitId) {
+      return res.status(404).json({ error: "Section not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only change section codes of circuits you teach" });
+    }
+
+    const updatedSection = await storage.regenerateSectionCode(sectionId);
+    res.json(updatedSection);
+  } catch (error: any) {
+    console.error("Error regenerating section code:", error);
+    res.status(500).json({
+      error: "Failed to regenerate section code",
+      details: error.message
+    });
+  }
+});
+
+// Set the expiry date and join limit of a section's code
+router.put("/wisdom-circuits/:id/sections/:sectionId/code", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can change section codes" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    const sectionId = parseInt(req.params.sectionId);
+    if (isNaN(circuitId) || isNaN(sectionId)) {
+      return res.status(400).json({ error: "Invalid circuit or section ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    const section = await storage.getCircuitSection(sectionId);
+    if (!circuit || !section || section.circuitId !== circuitId) {
+      return res.status(404).json({ error: "Section not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only change section codes of circuits you teach" });
+    }
+
+    const settings = circuitCodeSettingsSchema.parse(req.body);
+    const updatedSection = await storage.updateSectionCodeSettings(sectionId, settings);
+    res.json(updatedSection);
+  } catch (error: any) {
+    console.error("Error updating section code settings:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid code settings",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to update section code settings",
+      details: error.message
+    });
+  }
+});
+
+export default router;
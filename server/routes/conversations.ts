@@ -0,0 +1,99 @@
+import { Router } from "express";
+import path from "path";
+import { toPublicMessage, type ConversationWithMessages } from "@shared/schema";
+import { storage } from "../storage";
+
+const router = Router();
+
+// The signed-in student's saved conversations in a circuit, most recent first
+router.get("/wisdom-circuits/:id/conversations", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const conversations = await storage.getConversationSummaries(circuitId, req.user.id);
+    res.json(conversations);
+  } catch (error: any) {
+    console.error("Error fetching conversations:", error);
+    res.status(500).json({
+      error: "Failed to fetch conversations",
+      details: error.message
+    });
+  }
+});
+
+// A saved conversation with all of its messages
+router.get("/conversations/:id", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const conversationId = parseInt(req.params.id);
+    if (isNaN(conversationId)) {
+      return res.status(400).json({ error: "Invalid conversation ID" });
+    }
+
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation || conversation.studentId !== req.user.id) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    const messages = await storage.getConversationMessages(conversationId);
+    const feedback = await storage.getConversationFeedback(conversationId, req.user.id);
+    const result: ConversationWithMessages = { ...conversation, messages: messages.map(toPublicMessage), feedback };
+    res.json(result);
+  } catch (error: any) {
+    console.error("Error fetching conversation:", error);
+    res.status(500).json({
+      error: "Failed to fetch conversation",
+      details: error.message
+    });
+  }
+});
+
+// A photo attached to a message, for the student who sent it and the
+// teachers and assistants of their circuit
+router.get("/messages/:id/attachment", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const messageId = parseInt(req.params.id);
+    if (isNaN(messageId)) {
+      return res.status(400).json({ error: "Invalid message ID" });
+    }
+
+    const message = await storage.getMessage(messageId);
+    const conversation = message ? await storage.getConversation(message.conversationId) : undefined;
+    if (!message?.attachmentPath || !message.attachmentType || !conversation) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+
+    if (conversation.studentId !== req.user.id) {
+      const role = await storage.getCircuitRole(conversation.circuitId, req.user.id);
+      if (!role) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+    }
+
+    res.set('Cache-Control', 'private, max-age=3600');
+    res.type(message.attachmentType);
+    res.sendFile(path.resolve(message.attachmentPath));
+  } catch (error: any) {
+    console.error("Error fetching attachment:", error);
+    res.status(500).json({
+      error: "Failed to fetch attachment",
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,127 @@
+import { Router } from "express";
+import { organizationCounselorSchema } from "@shared/schema";
+import { ZodError } from "zod";
+import { storage } from "../storage";
+
+const router = Router();
+
+// Crisis alerts sent to the current user, as the circuit's teacher or the school counselor
+router.get("/crisis-alerts", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const alerts = await storage.getCrisisAlerts(req.user.id, req.query.status === 'acknowledged');
+    res.json(alerts);
+  } catch (error: any) {
+    console.error("Error fetching crisis alerts:", error);
+    res.status(500).json({
+      error: "Failed to fetch crisis alerts",
+      details: error.message
+    });
+  }
+});
+
+// Record that the current user has seen an alert and is following up
+router.post("/crisis-alerts/:id/acknowledge", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const alertId = parseInt(req.params.id);
+    if (isNaN(alertId)) {
+      return res.status(400).json({ error: "Invalid alert ID" });
+    }
+
+    const notification = await storage.acknowledgeCrisisAlert(alertId, req.user.id);
+    if (!notification) {
+      return res.status(404).json({ error: "No open crisis alert found" });
+    }
+
+    res.json(notification);
+  } catch (error: any) {
+    console.error("Error acknowledging crisis alert:", error);
+    res.status(500).json({
+      error: "Failed to acknowledge crisis alert",
+      details: error.message
+    });
+  }
+});
+
+// The counselor who receives crisis alerts for the admin's school
+router.get("/organization/counselor", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isAdmin) {
+      return res.status(403).json({ error: "Only school admins can manage the counselor contact" });
+    }
+
+    if (!req.user.organizationId) {
+      return res.status(404).json({ error: "You are not part of an organization" });
+    }
+
+    const organization = await storage.getOrganization(req.user.organizationId);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+
+    const counselor = organization.counselorId ? await storage.getUser(organization.counselorId) : undefined;
+    res.json(counselor
+      ? { id: counselor.id, email: counselor.email, displayName: counselor.displayName }
+      : null);
+  } catch (error: any) {
+    console.error("Error fetching counselor contact:", error);
+    res.status(500).json({
+      error: "Failed to fetch counselor contact",
+      details: error.message
+    });
+  }
+});
+
+router.put("/organization/counselor", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isAdmin) {
+      return res.status(403).json({ error: "Only school admins can manage the counselor contact" });
+    }
+
+    if (!req.user.organizationId) {
+      return res.status(404).json({ error: "You are not part of an organization" });
+    }
+
+    const { email } = organizationCounselorSchema.parse(req.body);
+
+    let counselorId: number | null = null;
+    if (email) {
+      const counselor = await storage.getUserByEmail(email);
+      if (!counselor) {
+        return res.status(404).json({ error: "No account found with that email" });
+      }
+      // Alerts show up on the staff dashboard, so the counselor needs a staff account
+      if (!counselor.isTeacher) {
+        return res.status(400).json({ error: "The counselor must have a staff account" });
+      }
+      if (counselor.organizationId !== req.user.organizationId) {
+        return res.status(400).json({ error: "The counselor must belong to your organization" });
+      }
+      counselorId = counselor.id;
+    }
+
+    const organization = await storage.updateOrganizationCounselor(req.user.organizationId, counselorId);
+    res.json(organization);
+  } catch (error: any) {
+    console.error("Error updating counselor contact:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid counselor contact",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to update counselor contact",
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,316 @@
+import { Router } from "express";
+import { canManageCircuit, flashcardDeckSchema, flashcardReviewSchema, flashcardSchema, generateFlashcardDeckSchema } from "@shared/schema";
+import { ZodError } from "zod";
+import { flashcardService } from "../services/flashcards";
+import { storage } from "../storage";
+
+const router = Router();
+
+// Cards handed out per review session
+const REVIEW_BATCH_SIZE = 50;
+
+// The circuit's decks with their cards, for the teachers who manage them
+router.get("/wisdom-circuits/:id/flashcard-decks", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can view flashcard decks" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only view flashcards in circuits you teach" });
+    }
+
+    const decks = await storage.getFlashcardDecks(circuitId);
+    res.json(decks);
+  } catch (error: any) {
+    console.error("Error fetching flashcard decks:", error);
+    res.status(500).json({
+      error: "Failed to fetch flashcard decks",
+      details: error.message
+    });
+  }
+});
+
+// A teacher writes a deck, with or without its first cards
+router.post("/wisdom-circuits/:id/flashcard-decks", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can create flashcard decks" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only add flashcards to circuits you teach" });
+    }
+
+    const { title, cards } = flashcardDeckSchema.parse(req.body);
+    const deck = await storage.createFlashcardDeck({ circuitId, title, contentId: null, createdBy: req.user.id }, cards);
+    res.status(201).json(deck);
+  } catch (error: any) {
+    console.error("Error creating flashcard deck:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid flashcard deck",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to create flashcard deck",
+      details: error.message
+    });
+  }
+});
+
+// Generate a deck from the vocabulary and concepts in the circuit's content
+router.post("/wisdom-circuits/:id/flashcard-decks/generate", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can create flashcard decks" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only add flashcards to circuits you teach" });
+    }
+
+    const { contentId } = generateFlashcardDeckSchema.parse(req.body);
+    const content = (await storage.getCircuitContent(circuitId))
+      .filter(item => contentId === undefined || item.id === contentId);
+    if (content.length === 0) {
+      return res.status(400).json({ error: contentId ? "Content not found" : "Upload content before generating flashcards" });
+    }
+
+    const deck = await flashcardService.generateDeck(circuit, req.user.id, content);
+    res.status(201).json(deck);
+  } catch (error: any) {
+    console.error("Error generating flashcard deck:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid request",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to generate flashcards",
+      details: error.message
+    });
+  }
+});
+
+router.delete("/flashcard-decks/:id", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can delete flashcard decks" });
+    }
+
+    const deckId = parseInt(req.params.id);
+    if (isNaN(deckId)) {
+      return res.status(400).json({ error: "Invalid deck ID" });
+    }
+
+    const deck = await storage.getFlashcardDeck(deckId);
+    if (!deck) {
+      return res.status(404).json({ error: "Deck not found" });
+    }
+
+    const role = await storage.getCircuitRole(deck.circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only delete flashcards in circuits you teach" });
+    }
+
+    await storage.deleteFlashcardDeck(deckId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error("Error deleting flashcard deck:", error);
+    res.status(500).json({
+      error: "Failed to delete flashcard deck",
+      details: error.message
+    });
+  }
+});
+
+router.post("/flashcard-decks/:id/cards", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can add flashcards" });
+    }
+
+    const deckId = parseInt(req.params.id);
+    if (isNaN(deckId)) {
+      return res.status(400).json({ error: "Invalid deck ID" });
+    }
+
+    const deck = await storage.getFlashcardDeck(deckId);
+    if (!deck) {
+      return res.status(404).json({ error: "Deck not found" });
+    }
+
+    const role = await storage.getCircuitRole(deck.circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only add flashcards to circuits you teach" });
+    }
+
+    const card = await storage.addFlashcard(deckId, flashcardSchema.parse(req.body));
+    res.status(201).json(card);
+  } catch (error: any) {
+    console.error("Error adding flashcard:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid flashcard",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to add flashcard",
+      details: error.message
+    });
+  }
+});
+
+router.delete("/flashcards/:id", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can delete flashcards" });
+    }
+
+    const cardId = parseInt(req.params.id);
+    if (isNaN(cardId)) {
+      return res.status(400).json({ error: "Invalid flashcard ID" });
+    }
+
+    const card = await storage.getFlashcard(cardId);
+    const deck = card ? await storage.getFlashcardDeck(card.deckId) : undefined;
+    if (!card || !deck) {
+      return res.status(404).json({ error: "Flashcard not found" });
+    }
+
+    const role = await storage.getCircuitRole(deck.circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only delete flashcards in circuits you teach" });
+    }
+
+    await storage.deleteFlashcard(cardId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error("Error deleting flashcard:", error);
+    res.status(500).json({
+      error: "Failed to delete flashcard",
+      details: error.message
+    });
+  }
+});
+
+// How many cards are due in each of the student's circuits, for the dashboard tiles
+router.get("/flashcards/due-counts", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const counts = await storage.getFlashcardDueCounts(req.user.id);
+    res.json(counts);
+  } catch (error: any) {
+    console.error("Error fetching flashcard due counts:", error);
+    res.status(500).json({
+      error: "Failed to fetch flashcard due counts",
+      details: error.message
+    });
+  }
+});
+
+// The cards an enrolled student should review now
+router.get("/circuit/:circuitId/flashcards/due", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const circuitId = parseInt(req.params.circuitId);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const enrollment = await storage.getEnrollment(circuitId, req.user.id);
+    if (!enrollment || enrollment.status !== 'active') {
+      return res.status(403).json({ error: "You are not enrolled in this circuit" });
+    }
+
+    const cards = await storage.getDueFlashcards(circuitId, req.user.id, REVIEW_BATCH_SIZE);
+    res.json(cards);
+  } catch (error: any) {
+    console.error("Error fetching due flashcards:", error);
+    res.status(500).json({
+      error: "Failed to fetch flashcards",
+      details: error.message
+    });
+  }
+});
+
+// A student rates how well they recalled a card, which sets when it is next due
+router.post("/flashcards/:id/review", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const cardId = parseInt(req.params.id);
+    if (isNaN(cardId)) {
+      return res.status(400).json({ error: "Invalid flashcard ID" });
+    }
+
+    const card = await storage.getFlashcard(cardId);
+    const deck = card ? await storage.getFlashcardDeck(card.deckId) : undefined;
+    if (!card || !deck) {
+      return res.status(404).json({ error: "Flashcard not found" });
+    }
+
+    const enrollment = await storage.getEnrollment(deck.circuitId, req.user.id);
+    if (!enrollment || enrollment.status !== 'active') {
+      return res.status(403).json({ error: "You are not enrolled in this circuit" });
+    }
+
+    const { quality } = flashcardReviewSchema.parse(req.body);
+    const previous = await storage.getFlashcardReview(cardId, req.user.id);
+    const review = await storage.saveFlashcardReview({
+      cardId,
+      studentId: req.user.id,
+      ...flashcardService.schedule(previous, quality),
+    });
+    res.json(review);
+  } catch (error: any) {
+    console.error("Error saving flashcard review:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid review",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to save review",
+      details: error.message
+    });
+  }
+});
+
+export default router;
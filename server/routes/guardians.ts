@@ -0,0 +1,262 @@
+import { Router } from "express";
+import { ZodError } from "zod";
+import {
+  canManageCircuit,
+  createGuardianInviteSchema,
+  guardianVisibilitySchema,
+  type GuardianCircuitSummary,
+  type GuardianStudentOverview,
+} from "@shared/schema";
+import { storage } from "../storage";
+
+const router = Router();
+
+// Teachers may act for students enrolled in a circuit they teach
+async function teachesStudent(teacherId: number, studentId: number): Promise<boolean> {
+  const circuits = await storage.getEnrolledCircuits(studentId);
+  for (const circuit of circuits) {
+    if (canManageCircuit(await storage.getCircuitRole(circuit.id, teacherId))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Resolve whose guardian links the request is about: students manage their
+// own, teachers pass the student's ID
+async function resolveStudentId(user: Express.User, requestedId: number | undefined): Promise<number | null> {
+  if (requestedId === undefined || requestedId === user.id) {
+    return user.id;
+  }
+  if (!user.isTeacher || isNaN(requestedId)) {
+    return null;
+  }
+  return await teachesStudent(user.id, requestedId) ? requestedId : null;
+}
+
+// Create an invite code a parent or guardian can use to link to a student
+router.post("/guardian-invites", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const { studentId: requestedId } = createGuardianInviteSchema.parse(req.body);
+    const studentId = await resolveStudentId(req.user, requestedId);
+    if (!studentId) {
+      return res.status(403).json({ error: "You can only invite guardians for students in circuits you teach" });
+    }
+
+    const invite = await storage.createGuardianInvite(studentId, req.user.id);
+    res.status(201).json(invite);
+  } catch (error: any) {
+    console.error("Error creating guardian invite:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid invite data",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to create guardian invite",
+      details: error.message
+    });
+  }
+});
+
+// List a student's pending invites and linked guardians
+router.get("/guardian-invites", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const requestedId = req.query.studentId ? parseInt(req.query.studentId as string) : undefined;
+    const studentId = await resolveStudentId(req.user, requestedId);
+    if (!studentId) {
+      return res.status(403).json({ error: "You can only view guardians of students in circuits you teach" });
+    }
+
+    const links = await storage.getStudentGuardianLinks(studentId);
+    res.json(links);
+  } catch (error: any) {
+    console.error("Error fetching guardian invites:", error);
+    res.status(500).json({
+      error: "Failed to fetch guardian invites",
+      details: error.message
+    });
+  }
+});
+
+// Accept an invite as the signed-in user, who becomes the student's guardian
+router.post("/guardian-invites/:code/accept", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    // Invites link an existing guardian account; they never change a student's or teacher's role
+    if (!req.user.isGuardian || req.user.isTeacher) {
+      return res.status(403).json({ error: "Only parent and guardian accounts can accept guardian invites" });
+    }
+
+    const invite = await storage.getGuardianLinkByCode(req.params.code.trim().toUpperCase());
+    if (!invite) {
+      return res.status(404).json({ error: "Invite not found" });
+    }
+    if (invite.status !== 'pending') {
+      return res.status(410).json({ error: "This invite has already been used" });
+    }
+    if (invite.studentId === req.user.id) {
+      return res.status(400).json({ error: "Students cannot accept their own guardian invite" });
+    }
+
+    const link = await storage.acceptGuardianInvite(invite.id, req.user.id);
+    if (!link) {
+      return res.status(410).json({ error: "This invite has already been used" });
+    }
+
+    res.json(link);
+  } catch (error: any) {
+    console.error("Error accepting guardian invite:", error);
+    res.status(500).json({
+      error: "Failed to accept guardian invite",
+      details: error.message
+    });
+  }
+});
+
+// Revoke an invite or unlink a guardian
+router.delete("/guardian-links/:id", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const linkId = parseInt(req.params.id);
+    if (isNaN(linkId)) {
+      return res.status(400).json({ error: "Invalid link ID" });
+    }
+
+    const link = await storage.getGuardianLink(linkId);
+    if (!link) {
+      return res.status(404).json({ error: "Guardian link not found" });
+    }
+
+    // The student, the guardian, or one of the student's teachers may remove the link
+    const canRemove = link.studentId === req.user.id ||
+      link.guardianId === req.user.id ||
+      (req.user.isTeacher && await teachesStudent(req.user.id, link.studentId));
+    if (!canRemove) {
+      return res.status(403).json({ error: "You cannot remove this guardian link" });
+    }
+
+    const deletedLink = await storage.deleteGuardianLink(linkId);
+    res.json(deletedLink);
+  } catch (error: any) {
+    console.error("Error removing guardian link:", error);
+    res.status(500).json({
+      error: "Failed to remove guardian link",
+      details: error.message
+    });
+  }
+});
+
+// Read-only overview of each linked student's circuits for the guardian dashboard
+router.get("/guardian/students", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isGuardian) {
+      return res.status(403).json({ error: "Only guardians can view linked students" });
+    }
+
+    const students = await storage.getGuardianStudents(req.user.id);
+    const overview: GuardianStudentOverview[] = [];
+
+    for (const student of students) {
+      const circuits = await storage.getEnrolledCircuits(student.id);
+      const summaries: GuardianCircuitSummary[] = [];
+
+      for (const circuit of circuits.filter(circuit => circuit.guardianShowCircuit)) {
+        const summary: GuardianCircuitSummary = {
+          id: circuit.id,
+          name: circuit.name,
+          grade: circuit.grade,
+          teacherName: circuit.teacherName,
+        };
+
+        if (circuit.guardianShowUsage) {
+          const enrollment = await storage.getEnrollment(circuit.id, student.id);
+          summary.lastActiveAt = enrollment?.lastActiveAt ?? null;
+          summary.weeklyMessages = await storage.getWeeklyMessageCount(circuit.id, student.id);
+        }
+
+        if (circuit.guardianShowSummaries) {
+          summary.conversations = await storage.getConversationSummaries(circuit.id, student.id, 5);
+        }
+
+        summaries.push(summary);
+      }
+
+      overview.push({
+        student: {
+          id: student.id,
+          email: student.email,
+          displayName: student.displayName,
+          avatarUrl: student.avatarUrl,
+        },
+        circuits: summaries,
+      });
+    }
+
+    res.json(overview);
+  } catch (error: any) {
+    console.error("Error fetching guardian overview:", error);
+    res.status(500).json({
+      error: "Failed to fetch linked students",
+      details: error.message
+    });
+  }
+});
+
+// Choose what guardians can see of a circuit
+router.put("/wisdom-circuits/:id/guardian-visibility", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can change guardian visibility" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only change guardian visibility of circuits you teach" });
+    }
+
+    const visibility = guardianVisibilitySchema.parse(req.body);
+    const updatedCircuit = await storage.updateGuardianVisibility(circuitId, visibility);
+    res.json(updatedCircuit);
+  } catch (error: any) {
+    console.error("Error updating guardian visibility:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid visibility settings",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to update guardian visibility",
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,123 @@
+import { Router } from "express";
+import { ZodError } from "zod";
+import { canManageCircuit, circuitJoinSettingsSchema } from "@shared/schema";
+import { storage } from "../storage";
+
+const router = Router();
+
+// Pending join requests across every circuit the teacher can manage
+router.get("/wisdom-circuits/join-requests", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can review join requests" });
+    }
+
+    const requests = await storage.getPendingJoinRequests(req.user.id);
+    res.json(requests);
+  } catch (error: any) {
+    console.error("Error fetching join requests:", error);
+    res.status(500).json({
+      error: "Failed to fetch join requests",
+      details: error.message
+    });
+  }
+});
+
+// Approve a pending request, or deny it by removing the enrollment
+router.post("/wisdom-circuits/:id/join-requests/:studentId/:action(approve|deny)", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can review join requests" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    const studentId = parseInt(req.params.studentId);
+    if (isNaN(circuitId) || isNaN(studentId)) {
+      return res.status(400).json({ error: "Invalid circuit or student ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only review join requests for circuits you teach" });
+    }
+
+    const enrollment = await storage.getEnrollment(circuitId, studentId);
+    if (!enrollment || enrollment.status !== 'pending') {
+      return res.status(404).json({ error: "Join request not found" });
+    }
+
+    if (req.params.action === 'approve') {
+      const approved = await storage.setEnrollmentStatus(circuitId, studentId, 'active', 'pending');
+      if (!approved) {
+        return res.status(404).json({ error: "Join request not found" });
+      }
+
+      // The join counts against the code it used now that it is approved. The
+      // teacher's approval stands even if the code has filled up since.
+      if (approved.sectionId !== null) {
+        await storage.claimSectionCodeUse(approved.sectionId);
+      } else {
+        await storage.claimCircuitCodeUse(circuitId);
+      }
+      return res.json(approved);
+    }
+
+    await storage.unenrollStudent(circuitId, studentId);
+    res.json(enrollment);
+  } catch (error: any) {
+    console.error("Error reviewing join request:", error);
+    res.status(500).json({
+      error: "Failed to review join request",
+      details: error.message
+    });
+  }
+});
+
+// Choose whether joining by code needs teacher approval
+router.put("/wisdom-circuits/:id/join-settings", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can change join settings" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only change join settings of circuits you teach" });
+    }
+
+    const settings = circuitJoinSettingsSchema.parse(req.body);
+    const updatedCircuit = await storage.updateCircuitJoinSettings(circuitId, settings);
+    res.json(updatedCircuit);
+  } catch (error: any) {
+    console.error("Error updating join settings:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid join settings",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to update join settings",
+      details: error.message
+    });
+  }
+});
+
+export default router;
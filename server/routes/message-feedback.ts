@@ -0,0 +1,176 @@
+import { Router } from "express";
+import { canManageCircuit, correctedAnswerSchema, messageFeedbackSchema } from "@shared/schema";
+import { ZodError } from "zod";
+import { storage } from "../storage";
+
+const router = Router();
+
+// A student rates or reports one of the tutor's replies in their own conversation
+router.put("/messages/:id/feedback", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const messageId = parseInt(req.params.id);
+    if (isNaN(messageId)) {
+      return res.status(400).json({ error: "Invalid message ID" });
+    }
+
+    const message = await storage.getMessage(messageId);
+    const conversation = message ? await storage.getConversation(message.conversationId) : undefined;
+    if (!message || !conversation || conversation.studentId !== req.user.id) {
+      return res.status(404).json({ error: "Message not found" });
+    }
+
+    // Scripted replies to crisis and blocked messages are not the tutor's answers
+    if (message.role !== 'assistant' || message.withheldFromModel) {
+      return res.status(400).json({ error: "Only tutor replies can be rated" });
+    }
+
+    const feedback = messageFeedbackSchema.parse(req.body);
+    const saved = await storage.saveMessageFeedback(messageId, conversation.circuitId, req.user.id, feedback);
+    res.json(saved);
+  } catch (error: any) {
+    console.error("Error saving message feedback:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid feedback",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to save feedback",
+      details: error.message
+    });
+  }
+});
+
+// Thumbs-down and reported replies in a circuit; open ones by default
+router.get("/wisdom-circuits/:id/feedback-queue", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can review student feedback" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only review feedback in circuits you teach" });
+    }
+
+    const queue = await storage.getFeedbackQueue(circuitId, req.query.status === 'resolved');
+    res.json(queue);
+  } catch (error: any) {
+    console.error("Error fetching feedback queue:", error);
+    res.status(500).json({
+      error: "Failed to fetch feedback queue",
+      details: error.message
+    });
+  }
+});
+
+// Write the answer the tutor should have given; it is reused for similar questions
+router.post("/message-feedback/:id/correction", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can correct answers" });
+    }
+
+    const feedbackId = parseInt(req.params.id);
+    if (isNaN(feedbackId)) {
+      return res.status(400).json({ error: "Invalid feedback ID" });
+    }
+
+    const feedback = await storage.getMessageFeedback(feedbackId);
+    if (!feedback) {
+      return res.status(404).json({ error: "Feedback not found" });
+    }
+
+    // Only owners and co-teachers can change what the tutor says
+    const role = await storage.getCircuitRole(feedback.circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only correct answers in circuits you teach" });
+    }
+
+    const message = await storage.getMessage(feedback.messageId);
+    if (!message) {
+      return res.status(404).json({ error: "Message not found" });
+    }
+
+    const question = await storage.getPrecedingStudentMessage(message.conversationId, message.id);
+    if (!question) {
+      return res.status(400).json({ error: "There is no student question to attach the correction to" });
+    }
+
+    const { answer } = correctedAnswerSchema.parse(req.body);
+    const correction = await storage.saveCorrectedAnswer({
+      circuitId: feedback.circuitId,
+      messageId: message.id,
+      question: question.content,
+      answer,
+      authorId: req.user.id,
+    });
+    await storage.resolveMessageFeedback(feedbackId, req.user.id);
+
+    res.json(correction);
+  } catch (error: any) {
+    console.error("Error saving corrected answer:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid corrected answer",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to save corrected answer",
+      details: error.message
+    });
+  }
+});
+
+// Clear feedback that needs no correction
+router.post("/message-feedback/:id/dismiss", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can review student feedback" });
+    }
+
+    const feedbackId = parseInt(req.params.id);
+    if (isNaN(feedbackId)) {
+      return res.status(400).json({ error: "Invalid feedback ID" });
+    }
+
+    const feedback = await storage.getMessageFeedback(feedbackId);
+    if (!feedback) {
+      return res.status(404).json({ error: "Feedback not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(feedback.circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only review feedback in circuits you teach" });
+    }
+
+    const resolved = await storage.resolveMessageFeedback(feedbackId, req.user.id);
+    res.json(resolved);
+  } catch (error: any) {
+    console.error("Error dismissing feedback:", error);
+    res.status(500).json({
+      error: "Failed to dismiss feedback",
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,74 @@
+import { Router } from "express";
+import { storage } from "../storage";
+
+const router = Router();
+
+// Messages the moderation layer flagged in a circuit; open flags by default
+router.get("/wisdom-circuits/:id/moderation-flags", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can review moderation flags" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only review moderation flags of circuits you teach" });
+    }
+
+    const flags = await storage.getModerationFlags(circuitId, req.query.status === 'reviewed');
+    res.json(flags);
+  } catch (error: any) {
+    console.error("Error fetching moderation flags:", error);
+    res.status(500).json({
+      error: "Failed to fetch moderation flags",
+      details: error.message
+    });
+  }
+});
+
+// Mark a flag as reviewed
+router.post("/moderation-flags/:id/review", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can review moderation flags" });
+    }
+
+    const flagId = parseInt(req.params.id);
+    if (isNaN(flagId)) {
+      return res.status(400).json({ error: "Invalid flag ID" });
+    }
+
+    const flag = await storage.getModerationFlag(flagId);
+    if (!flag) {
+      return res.status(404).json({ error: "Moderation flag not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(flag.circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only review moderation flags of circuits you teach" });
+    }
+
+    const reviewedFlag = await storage.reviewModerationFlag(flagId, req.user.id);
+    res.json(reviewedFlag);
+  } catch (error: any) {
+    console.error("Error reviewing moderation flag:", error);
+    res.status(500).json({
+      error: "Failed to review moderation flag",
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import { storage } from "../storage";
+
+const router = Router();
+
+// How often the homework guardrail had to change the tutor's replies in a circuit
+router.get("/wisdom-circuits/:id/policy-interventions", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can view homework policy audits" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only view audits of circuits you teach" });
+    }
+
+    const report = await storage.getPolicyInterventionReport(circuitId);
+    res.json(report);
+  } catch (error: any) {
+    console.error("Error fetching policy interventions:", error);
+    res.status(500).json({
+      error: "Failed to fetch homework policy audit",
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,151 @@
+import { Router } from "express";
+import { createPracticeQuizSchema, quizAnswerSchema } from "@shared/schema";
+import { ZodError } from "zod";
+import { practiceQuizService } from "../services/practice-quiz";
+import { storage } from "../storage";
+
+const router = Router();
+
+// An enrolled student starts a practice quiz, optionally on a topic of their choosing
+router.post("/circuit/:circuitId/quizzes", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const circuitId = parseInt(req.params.circuitId);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    const enrollment = await storage.getEnrollment(circuitId, req.user.id);
+    if (!enrollment || enrollment.status !== 'active' || circuit.isArchived) {
+      return res.status(403).json({ error: "You are not enrolled in this circuit" });
+    }
+
+    const { topic } = createPracticeQuizSchema.parse(req.body);
+    const quiz = await practiceQuizService.create(circuit, req.user.id, topic || null);
+    res.status(201).json(practiceQuizService.forStudent(quiz));
+  } catch (error: any) {
+    console.error("Error creating practice quiz:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid quiz request",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to create practice quiz",
+      details: error.message
+    });
+  }
+});
+
+// A student answers one item of their own quiz. Each item takes one answer,
+// and the graded item comes back with its answer and explanation.
+router.post("/quiz-items/:id/answer", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const itemId = parseInt(req.params.id);
+    if (isNaN(itemId)) {
+      return res.status(400).json({ error: "Invalid item ID" });
+    }
+
+    const item = await storage.getQuizItem(itemId);
+    const quiz = item ? await storage.getPracticeQuiz(item.quizId) : undefined;
+    if (!item || !quiz || quiz.studentId !== req.user.id) {
+      return res.status(404).json({ error: "Question not found" });
+    }
+
+    const enrollment = await storage.getEnrollment(quiz.circuitId, req.user.id);
+    if (!enrollment || enrollment.status !== 'active') {
+      return res.status(403).json({ error: "You are not enrolled in this circuit" });
+    }
+
+    if (item.answeredAt) {
+      return res.status(409).json({ error: "This question has already been answered" });
+    }
+
+    const { answer } = quizAnswerSchema.parse(req.body);
+    const answerError = practiceQuizService.answerError(item, answer);
+    if (answerError) {
+      return res.status(400).json({ error: answerError });
+    }
+
+    const circuit = await storage.getWisdomCircuit(quiz.circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    const result = await practiceQuizService.grade(item, answer, circuit.grade);
+    const answered = await storage.answerQuizItem(itemId, { studentAnswer: answer, ...result });
+    // Another request answered it while this one was grading
+    if (!answered) {
+      return res.status(409).json({ error: "This question has already been answered" });
+    }
+
+    // Re-read the quiz, since other questions may have been answered meanwhile
+    const current = await storage.getPracticeQuiz(quiz.id);
+    if (current && current.items.every(quizItem => quizItem.answeredAt)) {
+      await storage.completePracticeQuiz(quiz.id);
+    }
+
+    res.json(answered);
+  } catch (error: any) {
+    console.error("Error answering quiz item:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid answer",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to check answer",
+      details: error.message
+    });
+  }
+});
+
+// Every student's practice quizzes in a circuit, newest first, for spotting missed items
+router.get("/wisdom-circuits/:id/quiz-results", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can view quiz results" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only view quiz results in circuits you teach" });
+    }
+
+    const results = await storage.getQuizResults(circuitId);
+    res.json(results);
+  } catch (error: any) {
+    console.error("Error fetching quiz results:", error);
+    res.status(500).json({
+      error: "Failed to fetch quiz results",
+      details: error.message
+    });
+  }
+});
+
+export default router;
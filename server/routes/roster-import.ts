@@ -0,0 +1,92 @@
+import { Router } from "express";
+import multer from "multer";
+import { canManageCircuit } from "@shared/schema";
+import { storage } from "../storage";
+import { rosterImportService } from "../services/roster-import";
+
+const router = Router();
+
+// Roster files are parsed in memory and never written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024 // 5MB limit
+  }
+});
+
+const rosterFiles = upload.fields([
+  { name: 'file', maxCount: 1 },
+  { name: 'users', maxCount: 1 },
+  { name: 'enrollments', maxCount: 1 },
+]);
+
+// Import students from a roster CSV or a OneRoster 1.1 export and enroll them
+// into the selected circuits
+router.post("/roster-import", rosterFiles, async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can import rosters" });
+    }
+
+    const files = (req.files ?? {}) as { [fieldname: string]: Express.Multer.File[] };
+    const format = req.body.format === 'oneroster' ? 'oneroster' : 'csv';
+
+    // Circuit IDs arrive as a comma separated form field
+    const circuitIds = String(req.body.circuitIds ?? '')
+      .split(',')
+      .filter(Boolean)
+      .map(id => parseInt(id));
+    if (circuitIds.some(id => isNaN(id))) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    for (const circuitId of circuitIds) {
+      const circuit = await storage.getWisdomCircuit(circuitId);
+      if (!circuit) {
+        return res.status(404).json({ error: "Circuit not found" });
+      }
+
+      // Verify the user teaches this circuit
+      const role = await storage.getCircuitRole(circuitId, req.user.id);
+      if (!canManageCircuit(role)) {
+        return res.status(403).json({ error: "You can only import students into circuits you teach" });
+      }
+    }
+
+    let parsed;
+    if (format === 'oneroster') {
+      if (!files.users?.[0]) {
+        return res.status(400).json({ error: "OneRoster imports require a users.csv file" });
+      }
+      parsed = rosterImportService.parseOneRoster(
+        files.users[0].buffer.toString('utf8'),
+        files.enrollments?.[0]?.buffer.toString('utf8')
+      );
+    } else {
+      if (!files.file?.[0]) {
+        return res.status(400).json({ error: "No roster file uploaded" });
+      }
+      parsed = rosterImportService.parseRosterCsv(files.file[0].buffer.toString('utf8'));
+    }
+
+    if (parsed.candidates.length === 0 && parsed.rejected.length === 0) {
+      return res.status(400).json({ error: "The roster file has no student rows" });
+    }
+
+    const imported = await rosterImportService.importStudents({
+      candidates: parsed.candidates,
+      organizationId: req.user.organizationId,
+      circuitIds,
+    });
+
+    res.json(rosterImportService.buildReport([...parsed.rejected, ...imported]));
+  } catch (error: any) {
+    console.error("Error importing roster:", error);
+    res.status(500).json({
+      error: "Failed to import roster",
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,172 @@
+import { Router } from "express";
+import { insertMessageNoteSchema, toPublicMessage, transcriptQuerySchema, type Transcript } from "@shared/schema";
+import { ZodError } from "zod";
+import { storage } from "../storage";
+
+const router = Router();
+
+// Student conversations in a circuit, filtered and a page at a time, for teacher review
+router.get("/wisdom-circuits/:id/transcripts", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can review transcripts" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only review transcripts of circuits you teach" });
+    }
+
+    const query = transcriptQuerySchema.parse(req.query);
+    const transcripts = await storage.getCircuitTranscripts(circuitId, query);
+    res.json(transcripts);
+  } catch (error: any) {
+    console.error("Error fetching transcripts:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid transcript filters",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to fetch transcripts",
+      details: error.message
+    });
+  }
+});
+
+// One conversation with every message and the teachers' notes on them
+router.get("/wisdom-circuits/:id/transcripts/:conversationId", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can review transcripts" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    const conversationId = parseInt(req.params.conversationId);
+    if (isNaN(circuitId) || isNaN(conversationId)) {
+      return res.status(400).json({ error: "Invalid circuit or conversation ID" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only review transcripts of circuits you teach" });
+    }
+
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation || conversation.circuitId !== circuitId) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    const student = await storage.getUser(conversation.studentId);
+    if (!student) {
+      return res.status(404).json({ error: "Student not found" });
+    }
+
+    const messages = await storage.getConversationMessages(conversationId);
+    const notes = await storage.getMessageNotes(conversationId);
+    const transcript: Transcript = {
+      ...conversation,
+      messages: messages.map(toPublicMessage),
+      notes,
+      student: { id: student.id, email: student.email, displayName: student.displayName },
+    };
+    res.json(transcript);
+  } catch (error: any) {
+    console.error("Error fetching transcript:", error);
+    res.status(500).json({
+      error: "Failed to fetch transcript",
+      details: error.message
+    });
+  }
+});
+
+// Add a private note to a message; students never see these
+router.post("/wisdom-circuits/:id/transcripts/:conversationId/messages/:messageId/notes", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can add notes" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    const conversationId = parseInt(req.params.conversationId);
+    const messageId = parseInt(req.params.messageId);
+    if (isNaN(circuitId) || isNaN(conversationId) || isNaN(messageId)) {
+      return res.status(400).json({ error: "Invalid circuit, conversation or message ID" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only add notes in circuits you teach" });
+    }
+
+    const conversation = await storage.getConversation(conversationId);
+    const message = await storage.getMessage(messageId);
+    if (!conversation || conversation.circuitId !== circuitId || !message || message.conversationId !== conversationId) {
+      return res.status(404).json({ error: "Message not found" });
+    }
+
+    const { content } = insertMessageNoteSchema.parse(req.body);
+    const note = await storage.createMessageNote(messageId, req.user.id, content);
+    res.status(201).json(note);
+  } catch (error: any) {
+    console.error("Error adding note:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid note",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to add note",
+      details: error.message
+    });
+  }
+});
+
+// Teachers can only remove their own notes
+router.delete("/message-notes/:id", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can delete notes" });
+    }
+
+    const noteId = parseInt(req.params.id);
+    if (isNaN(noteId)) {
+      return res.status(400).json({ error: "Invalid note ID" });
+    }
+
+    const note = await storage.getMessageNote(noteId);
+    if (!note) {
+      return res.status(404).json({ error: "Note not found" });
+    }
+
+    if (note.authorId !== req.user.id) {
+      return res.status(403).json({ error: "You can only delete your own notes" });
+    }
+
+    const deletedNote = await storage.deleteMessageNote(noteId);
+    res.json(deletedNote);
+  } catch (error: any) {
+    console.error("Error deleting note:", error);
+    res.status(500).json({
+      error: "Failed to delete note",
+      details: error.message
+    });
+  }
+});
+
+export default router;
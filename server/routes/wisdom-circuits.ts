@@ -1,10 +1,11 @@
 import OpenAI from "openai";
 import { Router } from "express";
 import { db } from "../db";
-import { wisdomCircuits } from "@shared/schema";
-import { nanoid } from "nanoid";
-import { eq } from "drizzle-orm";
+import { wisdomCircuits, circuitCodeSettingsSchema, circuitChatSettingsSchema, enrollmentSectionSchema, canManageCircuit, type CircuitReport } from "@shared/schema";
+import { ZodError } from "zod";
 import { storage } from "../storage";
+import { moderationService } from "../services/moderation";
+import { crisisDetectionService } from "../services/crisis-detection";
 
 const router = Router();
 
@@ -133,7 +134,7 @@ router.post("/wisdom-circuits", async (req, res) => {
     }
 
     // Generate a unique 8-character code
-    const code = nanoid(8).toUpperCase();
+    const code = await storage.generateJoinCode();
 
     // Create the circuit with all required fields
     const [circuit] = await db.insert(wisdomCircuits).values({
@@ -163,21 +164,69 @@ router.post("/wisdom-circuits", async (req, res) => {
 // Add endpoint to add circuit by code
 router.post("/wisdom-circuits/add/:code", async (req, res) => {
   try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
     const code = req.params.code;
     if (!code) {
       return res.status(400).json({ error: "Circuit code is required" });
     }
 
-    // Find circuit by code
-    const [circuit] = await db
-      .select()
-      .from(wisdomCircuits)
-      .where(eq(wisdomCircuits.code, code.toUpperCase()));
-
-    if (!circuit) {
+    // Codes belong either to the circuit itself or to one of its sections
+    const normalizedCode = code.toUpperCase();
+    const section = await storage.getCircuitSectionByCode(normalizedCode);
+    const circuit = section
+      ? await storage.getWisdomCircuit(section.circuitId)
+      : await storage.getWisdomCircuitByCode(normalizedCode);
+    if (!circuit || circuit.isArchived) {
       return res.status(404).json({ error: "Invalid circuit code" });
     }
 
+    const existingEnrollment = await storage.getEnrollment(circuit.id, req.user.id);
+    if (existingEnrollment?.status === 'blocked') {
+      return res.status(403).json({ error: "You have been removed from this circuit by the teacher" });
+    }
+
+    if (existingEnrollment?.status === 'pending') {
+      return res.status(202).json({ status: 'pending', message: "Your request to join is waiting for the teacher's approval" });
+    }
+
+    // Students who already joined keep access after the code rotates or fills up
+    if (existingEnrollment) {
+      if (section && existingEnrollment.sectionId === null) {
+        await storage.setEnrollmentSection(circuit.id, req.user.id, section.id);
+      }
+      return res.json(circuit);
+    }
+
+    const joinCode = section ?? circuit;
+    if (joinCode.codeExpiresAt && joinCode.codeExpiresAt < new Date()) {
+      return res.status(410).json({ error: "This circuit code has expired. Ask your teacher for a new one." });
+    }
+
+    // A request awaiting approval uses up the code only once it is approved
+    const claimed = circuit.requireApproval
+      ? joinCode.codeMaxUses === null || joinCode.codeUseCount < joinCode.codeMaxUses
+      : section
+        ? await storage.claimSectionCodeUse(section.id)
+        : await storage.claimCircuitCodeUse(circuit.id);
+    if (!claimed) {
+      return res.status(410).json({ error: "This circuit code has reached its join limit. Ask your teacher for a new one." });
+    }
+
+    // Persist the enrollment so the circuit follows the student across devices
+    const enrollment = await storage.enrollStudent(
+      circuit.id,
+      req.user.id,
+      section?.id ?? null,
+      circuit.requireApproval ? 'pending' : 'active'
+    );
+
+    if (enrollment.status === 'pending') {
+      return res.status(202).json({ status: 'pending', message: "Your request to join has been sent to the teacher for approval" });
+    }
+
     res.json(circuit);
   } catch (error: any) {
     console.error("Error adding circuit:", error);
@@ -188,6 +237,376 @@ router.post("/wisdom-circuits/add/:code", async (req, res) => {
   }
 });
 
+// Add endpoint for a student to leave a circuit
+router.delete("/wisdom-circuits/:id/enrollment", async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    // Blocked students keep their enrollment row so they cannot rejoin by code.
+    // Leaving a circuit that is still awaiting approval withdraws the request.
+    const existingEnrollment = await storage.getEnrollment(circuitId, req.user.id);
+    if (!existingEnrollment || existingEnrollment.status === 'blocked') {
+      return res.status(404).json({ error: "You are not enrolled in this circuit" });
+    }
+
+    const enrollment = await storage.unenrollStudent(circuitId, req.user.id);
+
+    res.json(enrollment);
+  } catch (error: any) {
+    console.error("Error leaving circuit:", error);
+    res.status(500).json({ 
+      error: "Failed to leave circuit",
+      details: error.message
+    });
+  }
+});
+
+// Add endpoint to replace a circuit's join code
+router.post("/wisdom-circuits/:id/code/regenerate", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can change circuit codes" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only change the code of circuits you teach" });
+    }
+
+    const updatedCircuit = await storage.regenerateCircuitCode(circuitId);
+    res.json(updatedCircuit);
+  } catch (error: any) {
+    console.error("Error regenerating circuit code:", error);
+    res.status(500).json({ 
+      error: "Failed to regenerate circuit code",
+      details: error.message
+    });
+  }
+});
+
+// Add endpoint to set the expiry date and join limit of a circuit's code
+router.put("/wisdom-circuits/:id/code", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can change circuit codes" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only change the code of circuits you teach" });
+    }
+
+    const settings = circuitCodeSettingsSchema.parse(req.body);
+    const updatedCircuit = await storage.updateCircuitCodeSettings(circuitId, settings);
+    res.json(updatedCircuit);
+  } catch (error: any) {
+    console.error("Error updating circuit code settings:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid code settings",
+        details: error.errors
+      });
+    }
+    res.status(500).json({ 
+      error: "Failed to update circuit code settings",
+      details: error.message
+    });
+  }
+});
+
+// Set how the tutor greets students and nudges them when they go quiet
+router.put("/wisdom-circuits/:id/chat-settings", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can change chat settings" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only change chat settings of circuits you teach" });
+    }
+
+    const settings = circuitChatSettingsSchema.parse(req.body);
+    const updatedCircuit = await storage.updateCircuitChatSettings(circuitId, settings);
+    res.json(updatedCircuit);
+  } catch (error: any) {
+    console.error("Error updating chat settings:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid chat settings",
+        details: error.errors
+      });
+    }
+    res.status(500).json({
+      error: "Failed to update chat settings",
+      details: error.message
+    });
+  }
+});
+
+// Add endpoint to get the roster of enrolled students for a circuit
+router.get("/wisdom-circuits/:id/roster", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can view circuit rosters" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only view the roster of circuits you teach" });
+    }
+
+    // Optionally narrow the roster to a single section
+    const sectionId = req.query.sectionId ? parseInt(req.query.sectionId as string) : undefined;
+    if (sectionId !== undefined && isNaN(sectionId)) {
+      return res.status(400).json({ error: "Invalid section ID" });
+    }
+
+    const roster = await storage.getCircuitRoster(circuitId, sectionId);
+    res.json(roster);
+  } catch (error: any) {
+    console.error("Error fetching roster:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch roster",
+      details: error.message
+    });
+  }
+});
+
+// Add endpoint to remove a student from a circuit roster
+router.delete("/wisdom-circuits/:id/roster/:studentId", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can manage circuit rosters" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    const studentId = parseInt(req.params.studentId);
+    if (isNaN(circuitId) || isNaN(studentId)) {
+      return res.status(400).json({ error: "Invalid circuit or student ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only manage the roster of circuits you teach" });
+    }
+
+    const enrollment = await storage.unenrollStudent(circuitId, studentId);
+    if (!enrollment) {
+      return res.status(404).json({ error: "Student is not enrolled in this circuit" });
+    }
+
+    res.json(enrollment);
+  } catch (error: any) {
+    console.error("Error removing student:", error);
+    res.status(500).json({ 
+      error: "Failed to remove student",
+      details: error.message
+    });
+  }
+});
+
+// Add endpoint to move a student into a different section of a circuit
+router.put("/wisdom-circuits/:id/roster/:studentId/section", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can manage circuit rosters" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    const studentId = parseInt(req.params.studentId);
+    if (isNaN(circuitId) || isNaN(studentId)) {
+      return res.status(400).json({ error: "Invalid circuit or student ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only manage the roster of circuits you teach" });
+    }
+
+    const { sectionId } = enrollmentSectionSchema.parse(req.body);
+    if (sectionId !== null) {
+      const section = await storage.getCircuitSection(sectionId);
+      if (!section || section.circuitId !== circuitId) {
+        return res.status(400).json({ error: "Section does not belong to this circuit" });
+      }
+    }
+
+    const enrollment = await storage.setEnrollmentSection(circuitId, studentId, sectionId);
+    if (!enrollment) {
+      return res.status(404).json({ error: "Student is not enrolled in this circuit" });
+    }
+
+    res.json(enrollment);
+  } catch (error: any) {
+    console.error("Error moving student:", error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: "Invalid section",
+        details: error.errors
+      });
+    }
+    res.status(500).json({ 
+      error: "Failed to move student",
+      details: error.message
+    });
+  }
+});
+
+// Add endpoint to block or unblock a student on a circuit roster
+router.post("/wisdom-circuits/:id/roster/:studentId/:action(block|unblock)", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can manage circuit rosters" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    const studentId = parseInt(req.params.studentId);
+    if (isNaN(circuitId) || isNaN(studentId)) {
+      return res.status(400).json({ error: "Invalid circuit or student ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only manage the roster of circuits you teach" });
+    }
+
+    // Unblocking only restores blocked students; pending requests go through approval
+    const enrollment = req.params.action === 'block'
+      ? await storage.setEnrollmentStatus(circuitId, studentId, 'blocked')
+      : await storage.setEnrollmentStatus(circuitId, studentId, 'active', 'blocked');
+    if (!enrollment) {
+      return res.status(404).json({
+        error: req.params.action === 'block' ? "Student is not enrolled in this circuit" : "Student is not blocked in this circuit"
+      });
+    }
+
+    res.json(enrollment);
+  } catch (error: any) {
+    console.error("Error updating student status:", error);
+    res.status(500).json({ 
+      error: "Failed to update student status",
+      details: error.message
+    });
+  }
+});
+
+// Add endpoint to get activity figures for a circuit, optionally for one section
+router.get("/wisdom-circuits/:id/report", async (req, res) => {
+  try {
+    if (!req.isAuthenticated() || !req.user.isTeacher) {
+      return res.status(403).json({ error: "Only teachers can view circuit reports" });
+    }
+
+    const circuitId = parseInt(req.params.id);
+    if (isNaN(circuitId)) {
+      return res.status(400).json({ error: "Invalid circuit ID" });
+    }
+
+    const circuit = await storage.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return res.status(404).json({ error: "Circuit not found" });
+    }
+
+    // Verify the user teaches or assists in this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!role) {
+      return res.status(403).json({ error: "You can only view reports of circuits you teach" });
+    }
+
+    const sectionId = req.query.sectionId ? parseInt(req.query.sectionId as string) : undefined;
+    if (sectionId !== undefined && isNaN(sectionId)) {
+      return res.status(400).json({ error: "Invalid section ID" });
+    }
+
+    const roster = await storage.getCircuitRoster(circuitId, sectionId);
+    const content = await storage.getCircuitContent(circuitId);
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    const report: CircuitReport = {
+      enrolledStudents: roster.filter(entry => entry.status === 'active').length,
+      activeStudents: roster.filter(entry => entry.status === 'active' && entry.lastActiveAt && entry.lastActiveAt > weekAgo).length,
+      newContent: content.filter(item => item.uploadedAt > weekAgo).length,
+    };
+    res.json(report);
+  } catch (error: any) {
+    console.error("Error fetching circuit report:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch circuit report",
+      details: error.message
+    });
+  }
+});
+
 // Add chat endpoint
 router.post("/chat", async (req, res) => {
   try {
@@ -210,6 +629,16 @@ router.post("/chat", async (req, res) => {
       return res.status(400).json({ error: "Invalid grade level" });
     }
 
+    // There is no circuit or teacher to flag to here, so only screen the text
+    const screening = await moderationService.screenStudentMessage(message, grade);
+    const crisisCategories = crisisDetectionService.detect(message, screening.result);
+    if (crisisCategories.length > 0) {
+      return res.json({ response: crisisDetectionService.supportiveReply(crisisCategories, false) });
+    }
+    if (screening.action === 'blocked') {
+      return res.json({ response: moderationService.blockedReply });
+    }
+
     // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
     const response = await openai.chat.completions.create({
       model: "gpt-4o",
@@ -278,7 +707,8 @@ Remember to:
     });
 
     const aiResponse = response.choices[0].message.content?.trim();
-    res.json({ response: aiResponse });
+    const moderation = aiResponse ? await moderationService.screenReply(aiResponse, grade) : null;
+    res.json({ response: moderation?.text ?? aiResponse });
   } catch (error: any) {
     console.error("Error in chat response:", error);
 
@@ -303,15 +733,24 @@ Remember to:
   }
 });
 
-// Add endpoint to get all circuits for the current teacher
+// Add endpoint to get all circuits the current user has added
 router.get("/wisdom-circuits/added", async (req, res) => {
   try {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: "Authentication required" });
     }
 
-    console.log('Fetching circuits for teacher:', req.user.id);
-    const circuits = await storage.getWisdomCircuitsByTeacher(req.user.id);
+    console.log('Fetching circuits for user:', req.user.id);
+    const enrolledCircuits = await storage.getEnrolledCircuits(req.user.id);
+
+    // Teachers also see the circuits they own, ahead of any they joined by code
+    const ownedCircuits = req.user.isTeacher
+      ? await storage.getWisdomCircuitsByTeacher(req.user.id)
+      : [];
+    const circuits = [
+      ...ownedCircuits,
+      ...enrolledCircuits.filter(circuit => !ownedCircuits.some(owned => owned.id === circuit.id)),
+    ];
     console.log('Retrieved circuits:', circuits);
     res.json(circuits);
   } catch (error: any) {
@@ -366,9 +805,10 @@ router.post("/wisdom-circuits/:id/archive", async (req, res) => {
       return res.status(404).json({ error: "Circuit not found" });
     }
 
-    // Verify ownership
-    if (circuit.teacherId !== req.user.id) {
-      return res.status(403).json({ error: "You can only archive your own circuits" });
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only archive circuits you teach" });
     }
 
     // Archive the circuit
@@ -402,9 +842,10 @@ router.post("/wisdom-circuits/:id/unarchive", async (req, res) => {
       return res.status(404).json({ error: "Circuit not found" });
     }
 
-    // Verify ownership
-    if (circuit.teacherId !== req.user.id) {
-      return res.status(403).json({ error: "You can only unarchive your own circuits" });
+    // Verify the user teaches this circuit
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (!canManageCircuit(role)) {
+      return res.status(403).json({ error: "You can only unarchive circuits you teach" });
     }
 
     const archivedCircuit = await storage.unarchiveWisdomCircuit(circuitId);
@@ -469,9 +910,10 @@ router.delete("/wisdom-circuits/:id", async (req, res) => {
       return res.status(404).json({ error: "Circuit not found" });
     }
 
-    // Allow deletion if user is the owner OR if user is an admin
-    if (circuit.teacherId !== req.user.id && !req.user.isAdmin) {
-      return res.status(403).json({ error: "You can only delete your own circuits or you need admin rights" });
+    // Allow deletion if user is the owner OR if user is an admin; co-teachers and TAs cannot delete
+    const role = await storage.getCircuitRole(circuitId, req.user.id);
+    if (role !== 'owner' && !req.user.isAdmin) {
+      return res.status(403).json({ error: "You can only delete circuits you own or you need admin rights" });
     }
 
     // Delete the circuit
@@ -0,0 +1,57 @@
+import type { Conversation } from '@shared/schema';
+import { storage } from '../storage';
+import { OpenAIService, type ChatHistory, type ChatTurn } from './openai-service';
+
+// Prior turns sent with each message, in tokens. Set CHAT_HISTORY_TOKEN_BUDGET to override.
+const DEFAULT_HISTORY_TOKEN_BUDGET = 2000;
+
+function getHistoryTokenBudget(): number {
+  const budget = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '');
+  return isNaN(budget) || budget <= 0 ? DEFAULT_HISTORY_TOKEN_BUDGET : budget;
+}
+
+// Roughly four characters per token for English text, which is close enough for budgeting
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export const chatHistoryService = {
+  // Keep the newest turns that fit in the budget and fold older ones into the
+  // conversation's rolling summary, which is saved so each turn is summarized once
+  async buildHistory(conversation: Conversation): Promise<ChatHistory> {
+    const budget = getHistoryTokenBudget();
+    const messages = await storage.getConversationMessages(conversation.id, conversation.summarizedThroughId ?? undefined);
+    // Teachers who joined the chat speak for the tutor's side; the join and
+    // leave notices themselves are only for people reading the transcript, as
+    // are blocked and crisis messages
+    const chatMessages = messages.filter(message => message.role !== 'event' && !message.withheldFromModel);
+    const turns: ChatTurn[] = chatMessages.map(message => message.role === 'teacher'
+      ? { role: 'assistant', content: `(${message.authorName}, the student's teacher, wrote:) ${message.content}` }
+      : message.attachmentPath
+        // Only the newest photo is sent to the model; earlier ones are just mentioned
+        ? { role: 'user', content: `(The student attached a photo.) ${message.content}` }
+        : { role: message.role as ChatTurn['role'], content: message.content });
+
+    let usedTokens = conversation.summary ? estimateTokens(conversation.summary) : 0;
+    let keepFrom = turns.length;
+    while (keepFrom > 0) {
+      const tokens = estimateTokens(turns[keepFrom - 1].content);
+      if (usedTokens + tokens > budget) break;
+      usedTokens += tokens;
+      keepFrom--;
+    }
+
+    let summary = conversation.summary;
+    if (keepFrom > 0) {
+      try {
+        summary = await OpenAIService.summarizeConversation(summary, turns.slice(0, keepFrom));
+        await storage.updateConversationSummary(conversation.id, summary, chatMessages[keepFrom - 1].id);
+      } catch (error) {
+        // The chat can still go ahead with the recent turns alone
+        console.error('Error updating conversation summary:', error);
+      }
+    }
+
+    return { summary, turns: turns.slice(keepFrom) };
+  },
+};
@@ -0,0 +1,113 @@
+import type { ChatSuggestion, CircuitContent, WisdomCircuit } from '@shared/schema';
+import { DEFAULT_TEACHING_PROMPTS, getGradeNumber, getGradeTemplate, type TeachingConfiguration } from '@shared/circuit-templates';
+import { storage } from '../storage';
+
+const MAX_SUGGESTIONS = 24;
+const MAX_CONTENT_SUGGESTIONS = 4;
+// Content uploaded this recently gets a "Review ..." suggestion
+const RECENT_CONTENT_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Requests that make sense in any class
+const GENERAL_SUGGESTIONS: Pick<ChatSuggestion, 'text' | 'icon'>[] = [
+  { text: "Help me understand this", icon: "🤔" },
+  { text: "Show me an example", icon: "👀" },
+  { text: "Can you say it another way?", icon: "🔄" },
+  { text: "I'm stuck, can you help?", icon: "🆘" },
+  { text: "Give me a practice problem", icon: "✏️" },
+  { text: "Help me study for my test", icon: "📝" },
+  { text: "Break this down step by step", icon: "🪜" },
+  { text: "What are the key points?", icon: "🎯" },
+  { text: "How does this connect to real life?", icon: "🌎" },
+  { text: "Summarize the main ideas", icon: "📋" },
+  { text: "Check my understanding with a quick quiz", icon: "✅" },
+  { text: "Give me a challenge problem", icon: "🏆" },
+  { text: "Compare and contrast these ideas", icon: "⚖️" },
+  { text: "What should I focus on to improve?", icon: "📈" },
+];
+
+// What to call each kind of content in a suggestion; syllabi and pacing guides
+// describe the course rather than a lesson, so they get none
+const CONTENT_NOUNS: Record<string, string> = {
+  lesson_plan: 'lesson',
+  worksheet: 'worksheet',
+  reference_material: 'reading',
+  transcript: 'class',
+};
+
+// Suggestions young readers can manage: fewer and shorter words for lower grades
+function isGradeAppropriate(text: string, grade: string): boolean {
+  const gradeNumber = getGradeNumber(grade);
+  const words = text.split(/\s+/);
+  const longestWord = Math.max(...words.map(word => word.replace(/[^a-z]/gi, '').length));
+
+  if (gradeNumber <= 2) return words.length <= 6 && longestWord <= 8;
+  if (gradeNumber <= 5) return words.length <= 9 && longestWord <= 11;
+  if (gradeNumber <= 8) return words.length <= 14;
+  return true;
+}
+
+// "today's", "Tuesday's" or "the", depending on how long ago the content was added
+function describeDay(date: Date, now: Date): string {
+  if (date.toDateString() === now.toDateString()) return "today's";
+  if (date.toDateString() === new Date(now.getTime() - DAY_MS).toDateString()) return "yesterday's";
+  if (now.getTime() - date.getTime() < 6 * DAY_MS) {
+    return `${date.toLocaleDateString('en-US', { weekday: 'long' })}'s`;
+  }
+  return 'the';
+}
+
+function contentSuggestion(item: CircuitContent, now: Date): ChatSuggestion | null {
+  const noun = CONTENT_NOUNS[item.category];
+  if (!noun) return null;
+
+  const day = describeDay(new Date(item.uploadedAt), now);
+  // Recording transcripts are titled by date, which says nothing about the topic
+  const text = item.category === 'transcript'
+    ? `Recap ${day} class`
+    : `Review ${day} ${noun} on ${item.title}`;
+  return { text: text.charAt(0).toUpperCase() + text.slice(1), icon: item.category === 'transcript' ? '🎙️' : '📚', source: 'content' };
+}
+
+export const chatSuggestionService = {
+  // Teacher-pinned prompts first, then reviews of recent content, then the
+  // circuit's teaching prompts and general requests that suit its grade
+  async forCircuit(circuit: WisdomCircuit): Promise<ChatSuggestion[]> {
+    const now = new Date();
+    const suggestions: ChatSuggestion[] = (circuit.pinnedSuggestions as string[])
+      .map(text => ({ text, icon: '📌', source: 'pinned' as const }));
+
+    const content = await storage.getCircuitContent(circuit.id);
+    suggestions.push(...content
+      .filter(item => now.getTime() - new Date(item.uploadedAt).getTime() < RECENT_CONTENT_DAYS * DAY_MS)
+      .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime())
+      .map(item => contentSuggestion(item, now))
+      .filter((suggestion): suggestion is ChatSuggestion => suggestion !== null)
+      .slice(0, MAX_CONTENT_SUGGESTIONS));
+
+    // Circuits without a teaching configuration use the template for their grade
+    const activePrompt = await storage.getActiveCircuitPrompt(circuit.id);
+    const configuration: Pick<TeachingConfiguration, 'defaultPrompts' | 'customPrompts'> =
+      (activePrompt?.configuration as TeachingConfiguration | undefined)
+      ?? DEFAULT_TEACHING_PROMPTS[getGradeTemplate(circuit.grade)].configuration;
+    const prompts = [...(configuration.customPrompts ?? []), ...configuration.defaultPrompts];
+    suggestions.push(...prompts
+      .filter(text => isGradeAppropriate(text, circuit.grade))
+      .map(text => ({ text, icon: '💡', source: 'prompt' as const })));
+
+    suggestions.push(...GENERAL_SUGGESTIONS
+      .filter(suggestion => isGradeAppropriate(suggestion.text, circuit.grade))
+      .map(suggestion => ({ ...suggestion, source: 'general' as const })));
+
+    // The same prompt can come from more than one place
+    const seen = new Set<string>();
+    return suggestions
+      .filter(suggestion => {
+        const key = suggestion.text.trim().toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_SUGGESTIONS);
+  },
+};
@@ -0,0 +1,59 @@
+import type { Citation } from '@shared/schema';
+import type { KnowledgeSource } from './openai-service';
+
+const CITATION_MARKER = /\[(\d+)\]/g;
+const EXCERPT_LENGTH = 240;
+
+function keywords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2);
+}
+
+// The paragraph or sentence of the source that shares the most words with
+// what the reply said next to the marker
+function findExcerpt(content: string, claim: string): string {
+  const claimWords = new Set(keywords(claim));
+  const passages = content
+    .split(/\n\s*\n|(?<=[.!?])\s+/)
+    .map(passage => passage.trim())
+    .filter(Boolean);
+
+  let best = passages[0] ?? '';
+  let bestScore = 0;
+  for (const passage of passages) {
+    const score = keywords(passage).filter(word => claimWords.has(word)).length;
+    if (score > bestScore) {
+      best = passage;
+      bestScore = score;
+    }
+  }
+
+  return best.length > EXCERPT_LENGTH ? `${best.slice(0, EXCERPT_LENGTH).trimEnd()}…` : best;
+}
+
+export const citationService = {
+  // Turn the [n] markers in a reply into citations of the numbered knowledge
+  // sources, once per source. Numbers that match no source are ignored.
+  extract(reply: string, sources: KnowledgeSource[]): Citation[] {
+    const citations = new Map<number, Citation>();
+
+    for (const match of Array.from(reply.matchAll(CITATION_MARKER))) {
+      const marker = parseInt(match[1]);
+      const source = sources[marker - 1];
+      if (!source || citations.has(source.id)) continue;
+
+      // The sentence the marker follows, which may end before or after it
+      const before = reply.slice(0, match.index).replace(/[\s.!?]+$/, '');
+      const sentenceStart = Math.max(before.lastIndexOf('. '), before.lastIndexOf('\n')) + 1;
+
+      citations.set(source.id, {
+        contentId: source.id,
+        marker,
+        title: source.title,
+        excerpt: findExcerpt(source.content, before.slice(sentenceStart)),
+        contentUrl: source.contentUrl,
+      });
+    }
+
+    return Array.from(citations.values());
+  },
+};
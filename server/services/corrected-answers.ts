@@ -0,0 +1,43 @@
+import type { CorrectedAnswer } from '@shared/schema';
+import { storage } from '../storage';
+
+// How much two questions' keywords must overlap (Jaccard index) to count as similar
+const SIMILARITY_THRESHOLD = 0.5;
+const MAX_CORRECTIONS = 3;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'do', 'does', 'for', 'from',
+  'how', 'i', 'if', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'please', 'so', 'that', 'the',
+  'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+function keywords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = Array.from(a).filter(word => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+export const correctedAnswerService = {
+  // Teacher corrections to questions like this one, best match first. Keyword
+  // overlap keeps this cheap enough to run on every message.
+  async findSimilar(circuitId: number, question: string): Promise<Pick<CorrectedAnswer, 'question' | 'answer'>[]> {
+    const questionWords = keywords(question);
+    if (questionWords.size === 0) return [];
+
+    const corrections = await storage.getCorrectedAnswers(circuitId);
+    return corrections
+      .map(correction => ({ correction, score: similarity(questionWords, keywords(correction.question)) }))
+      .filter(({ score }) => score >= SIMILARITY_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CORRECTIONS)
+      .map(({ correction }) => ({ question: correction.question, answer: correction.answer }));
+  },
+};
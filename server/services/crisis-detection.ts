@@ -0,0 +1,112 @@
+import { canManageCircuit, type CircuitRole, type Conversation, type CrisisAlert, type CrisisAlertNotification, type CrisisCategory, type WisdomCircuit } from '@shared/schema';
+import type { ModerationResult } from './moderation';
+import { storage } from '../storage';
+
+interface CrisisRule {
+  category: CrisisCategory;
+  pattern: RegExp;
+}
+
+// Mostly first-person phrasings, so a student reading about a topic for class is
+// less likely to set off an alert. Missing a disclosure is worse than a false
+// alarm, though, so the patterns lean towards matching.
+const RULES: CrisisRule[] = [
+  { category: 'self-harm', pattern: /\b(suicid\w*|self[- ]?harm\w*|end(ing)? my (own )?life|take my (own )?life|kill(ing)? myself|hurt(ing)? myself|cut(ting)? myself|better off dead|no reason to (live|be alive))\b/i },
+  { category: 'self-harm', pattern: /\bi (want|wanna|wish i could|just want) (to )?(die|be dead|not (be alive|exist|wake up))\b/i },
+  { category: 'abuse', pattern: /\b(he|she|they|my (mom|mum|dad|mother|father|step\w*|parents?|brother|sister|uncle|aunt|grandpa|grandma|boyfriend|girlfriend|coach|babysitter)) (hits|beats|hurts|kicks|chokes|burns|touches|touched|abuses|abused|hit|beat|hurt|kicked|choked|burned) me\b/i },
+  { category: 'abuse', pattern: /\bi('m| am| was| got| have been| keep getting) (being )?(abused|molested|beaten|raped)\b/i },
+  { category: 'danger', pattern: /\bi('m| am) (not safe|in danger|scared to go home|afraid to go home)\b/i },
+  { category: 'danger', pattern: /\b(someone|somebody|a (man|woman|stranger|guy)|he|she|they) (is|are|keeps?) (following|stalking|threatening) me\b/i },
+  { category: 'danger', pattern: /\b(i('m| am) going to|i will|gonna|i want to) (shoot|bomb|bring a gun to) (up )?(the |my )?school\b/i },
+];
+
+const RESOURCES: Record<CrisisCategory | 'always', string[]> = {
+  'self-harm': ['Call or text 988 to reach the Suicide & Crisis Lifeline, any time, day or night.'],
+  abuse: ['Call or text 1-800-422-4453 to reach the Childhelp National Child Abuse Hotline.'],
+  danger: [],
+  always: [
+    'Text HOME to 741741 to talk with a trained counselor at the Crisis Text Line.',
+    'If you are in danger right now, call 911.',
+  ],
+};
+
+export const crisisDetectionService = {
+  // Categories of crisis disclosed in a student's message, if any. The moderation
+  // classifier's self-harm category counts too, since the OpenAI classifier
+  // recognises phrasings the rules miss.
+  detect(text: string, moderation?: ModerationResult): CrisisCategory[] {
+    const categories = new Set<CrisisCategory>();
+    for (const rule of RULES) {
+      if (rule.pattern.test(text)) {
+        categories.add(rule.category);
+      }
+    }
+    if (moderation?.categories.includes('self-harm')) {
+      categories.add('self-harm');
+    }
+    return Array.from(categories);
+  },
+
+  // Sent instead of a tutor reply. Never asks the model, so it is the same
+  // careful wording every time.
+  supportiveReply(categories: CrisisCategory[], teacherNotified: boolean): string {
+    const resources = [
+      ...categories.flatMap(category => RESOURCES[category]),
+      ...RESOURCES.always,
+    ];
+
+    return [
+      "I'm really glad you told me. What you're going through sounds really hard, and you don't have to deal with it alone.",
+      "I'm an AI tutor, so I can't help with this the way a person can, but there are people who want to help you right now:",
+      resources.map(resource => `- ${resource}`).join('\n'),
+      teacherNotified
+        ? "I've let your teacher know so they can check in with you. Please also talk to an adult you trust, like a parent, a teacher or your school counselor."
+        : 'Please talk to an adult you trust, like a parent, a teacher or your school counselor.',
+    ].join('\n\n');
+  },
+
+  // Alert the circuit's teacher and the school counselor, and keep a record of who
+  // was notified and when
+  async escalate(
+    conversation: Conversation,
+    circuit: WisdomCircuit,
+    messageId: number,
+    content: string,
+    categories: CrisisCategory[]
+  ): Promise<CrisisAlert> {
+    const recipients: Pick<CrisisAlertNotification, 'recipientId' | 'recipientRole'>[] = [
+      { recipientId: circuit.teacherId, recipientRole: 'teacher' },
+    ];
+
+    // Co-teachers run the circuit alongside the owner, so they hear about it too
+    const members = await storage.getCircuitMembers(circuit.id);
+    for (const member of members) {
+      if (canManageCircuit(member.role as CircuitRole) && member.userId !== circuit.teacherId) {
+        recipients.push({ recipientId: member.userId, recipientRole: 'teacher' });
+      }
+    }
+
+    // The student's school decides who the counselor is, falling back to the teacher's
+    const student = await storage.getUser(conversation.studentId);
+    const teacher = await storage.getUser(circuit.teacherId);
+    const organizationId = student?.organizationId ?? teacher?.organizationId;
+    if (organizationId) {
+      const organization = await storage.getOrganization(organizationId);
+      if (organization?.counselorId && !recipients.some(r => r.recipientId === organization.counselorId)) {
+        recipients.push({ recipientId: organization.counselorId, recipientRole: 'counselor' });
+      }
+    }
+
+    const alert = await storage.createCrisisAlert({
+      circuitId: circuit.id,
+      conversationId: conversation.id,
+      messageId,
+      studentId: conversation.studentId,
+      categories,
+      content,
+    }, recipients);
+
+    console.warn(`Crisis alert ${alert.id} raised in circuit ${circuit.id}; notified users ${recipients.map(r => r.recipientId).join(', ')}`);
+    return alert;
+  },
+};
@@ -0,0 +1,61 @@
+import { flashcardSchema, type CircuitContent, type FlashcardDeckWithCards, type FlashcardReview, type WisdomCircuit } from '@shared/schema';
+import { OpenAIService } from './openai-service';
+import { storage } from '../storage';
+
+const MAX_GENERATED_CARDS = 30;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Schedule = Pick<FlashcardReview, 'easeFactor' | 'intervalDays' | 'repetitions' | 'dueAt'>;
+
+export const flashcardService = {
+  // SM-2: a recall rated 3 or better moves the card out to 1 day, then 6, then
+  // the last interval times the card's ease; a lapse starts it over at 1 day.
+  // Ease rises with easy recalls and falls with hard ones, never below 1.3.
+  schedule(previous: FlashcardReview | undefined, quality: number, now: Date = new Date()): Schedule {
+    const easeFactor = previous?.easeFactor ?? 2.5;
+    const repetitions = quality >= 3 ? (previous?.repetitions ?? 0) + 1 : 0;
+
+    let intervalDays = 1;
+    if (repetitions === 2) {
+      intervalDays = 6;
+    } else if (repetitions > 2) {
+      intervalDays = Math.round((previous?.intervalDays ?? 6) * easeFactor);
+    }
+
+    return {
+      easeFactor: Math.max(MIN_EASE_FACTOR, easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+      intervalDays,
+      repetitions,
+      dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+    };
+  },
+
+  // Build a deck from one piece of content, or from all of the circuit's
+  // content. Malformed cards from the model are dropped.
+  async generateDeck(circuit: WisdomCircuit, teacherId: number, content: CircuitContent[]): Promise<FlashcardDeckWithCards> {
+    const sources = content.map(c => ({
+      id: c.id,
+      title: c.title,
+      content: c.content || c.description || '',
+      contentUrl: c.contentUrl,
+    }));
+
+    const generated = await OpenAIService.generateFlashcards(circuit, sources, MAX_GENERATED_CARDS);
+    const cards = generated
+      .map(card => flashcardSchema.safeParse(card))
+      .flatMap(result => result.success ? [result.data] : [])
+      .slice(0, MAX_GENERATED_CARDS);
+
+    if (cards.length === 0) {
+      throw new Error("Failed to generate flashcards. Please try again later.");
+    }
+
+    return await storage.createFlashcardDeck({
+      circuitId: circuit.id,
+      title: content.length === 1 ? content[0].title : `${circuit.name} Review`,
+      contentId: content.length === 1 ? content[0].id : null,
+      createdBy: teacherId,
+    }, cards);
+  },
+};
@@ -0,0 +1,77 @@
+import type { Conversation, InsertPolicyIntervention } from '@shared/schema';
+import { storage } from '../storage';
+import { OpenAIService, type ChatImage, type CircuitContext } from './openai-service';
+
+// Policies that forbid handing students the answer
+const ENFORCED_POLICIES = ['guide', 'no_solutions'];
+
+// Sent when the rewrite still gives the answer away
+const FALLBACK_RESPONSE = "Let's work through this together instead of jumping to the answer. " +
+  "What do you already know about the problem, and what have you tried so far? " +
+  "Tell me where you got stuck and I'll give you a hint for the next step.";
+
+export interface EnforceHomeworkPolicyParams {
+  conversation: Conversation;
+  context: CircuitContext;
+  studentMessage: string;
+  image?: ChatImage; // the judge needs the student's photo to tell whether the reply solves it
+  draft: string;
+}
+
+export const homeworkGuardrailService = {
+  appliesTo(context: CircuitContext): boolean {
+    return context.homeworkPolicies.some(policy => ENFORCED_POLICIES.includes(policy));
+  },
+
+  // Check a draft reply against the circuit's homework policies. Returns the reply
+  // to send, rewriting it when it leaks a direct solution and logging the intervention.
+  async enforce({ conversation, context, studentMessage, image, draft }: EnforceHomeworkPolicyParams): Promise<string> {
+    if (!this.appliesTo(context)) {
+      return draft;
+    }
+
+    const recordIntervention = (reason: string, action: 'rewritten' | 'fallback', finalResponse: string) =>
+      storage.createPolicyIntervention({
+        circuitId: conversation.circuitId,
+        conversationId: conversation.id,
+        studentId: conversation.studentId,
+        policies: context.homeworkPolicies as InsertPolicyIntervention['policies'],
+        reason,
+        action,
+        originalResponse: draft,
+        finalResponse,
+      });
+
+    let verdict;
+    try {
+      verdict = await OpenAIService.checkHomeworkPolicy(studentMessage, draft, context.homeworkPolicies, image);
+    } catch (error) {
+      // An unchecked draft could give the answer away, so fail closed with the
+      // safe redirect and leave a record the teacher can see in the audit
+      console.error('Homework policy check failed:', error);
+      await recordIntervention('The policy check was unavailable, so the response could not be verified', 'fallback', FALLBACK_RESPONSE);
+      return FALLBACK_RESPONSE;
+    }
+
+    if (!verdict.leaksSolution) {
+      return draft;
+    }
+
+    let finalResponse = FALLBACK_RESPONSE;
+    let action: 'rewritten' | 'fallback' = 'fallback';
+    try {
+      const rewrite = await OpenAIService.rewriteForHomeworkPolicy(studentMessage, draft, verdict.reason, context, image);
+      const recheck = await OpenAIService.checkHomeworkPolicy(studentMessage, rewrite, context.homeworkPolicies, image);
+      if (rewrite && !recheck.leaksSolution) {
+        finalResponse = rewrite;
+        action = 'rewritten';
+      }
+    } catch (error) {
+      console.error('Homework policy rewrite failed:', error);
+    }
+
+    await recordIntervention(verdict.reason || 'Response gave away a direct solution', action, finalResponse);
+
+    return finalResponse;
+  },
+};
@@ -0,0 +1,215 @@
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+  canManageCircuit,
+  liveChatClientMessageSchema,
+  toPublicMessage,
+  type Conversation,
+  type LiveChatClientMessage,
+  type LiveChatEvent,
+  type Message,
+  type User,
+} from '@shared/schema';
+import { authenticateUpgrade } from '../auth';
+import { storage } from '../storage';
+
+const LIVE_CHAT_PATH = '/ws/live-chat';
+
+interface LiveChatClient {
+  socket: WebSocket;
+  user: User;
+  circuitIds: Set<number>; // circuits a teacher is watching
+  conversationIds: Set<number>; // single conversations, for students and teachers who took one over
+}
+
+const clients = new Set<LiveChatClient>();
+
+function displayName(user: User): string {
+  return user.displayName || user.email;
+}
+
+function send(client: LiveChatClient, event: LiveChatEvent) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(event));
+  }
+}
+
+function publish(conversation: Conversation, event: LiveChatEvent) {
+  for (const client of Array.from(clients)) {
+    if (client.circuitIds.has(conversation.circuitId) || client.conversationIds.has(conversation.id)) {
+      send(client, event);
+    }
+  }
+}
+
+function publishTakeover(conversation: Conversation, teacher: User | null) {
+  publish(conversation, {
+    type: 'takeover',
+    circuitId: conversation.circuitId,
+    conversationId: conversation.id,
+    teacherId: teacher?.id ?? null,
+    teacherName: teacher ? displayName(teacher) : null,
+  });
+}
+
+// Record the handoff in the transcript and let everyone following the conversation know.
+// Returns false when another teacher took the conversation over first.
+async function setTakeover(conversation: Conversation, teacher: User, takingOver: boolean): Promise<boolean> {
+  const updated = await storage.setConversationTakeover(conversation.id, takingOver ? teacher.id : null);
+  if (!updated) return false;
+
+  const event = await storage.addMessage({
+    conversationId: conversation.id,
+    role: 'event',
+    content: takingOver
+      ? `${displayName(teacher)} joined the chat`
+      : `${displayName(teacher)} handed the chat back to the tutor`,
+    authorId: teacher.id,
+    authorName: displayName(teacher),
+  });
+  liveChatService.publishMessage(updated, event);
+  publishTakeover(updated, takingOver ? teacher : null);
+  return true;
+}
+
+async function handleClientMessage(client: LiveChatClient, payload: LiveChatClientMessage) {
+  const { user } = client;
+
+  if (payload.type === 'watch') {
+    const role = await storage.getCircuitRole(payload.circuitId, user.id);
+    if (!role) {
+      return send(client, { type: 'error', error: 'You can only watch circuits you teach' });
+    }
+    client.circuitIds.add(payload.circuitId);
+    return;
+  }
+
+  const conversation = await storage.getConversation(payload.conversationId);
+  if (!conversation) {
+    return send(client, { type: 'error', error: 'Conversation not found' });
+  }
+  const role = await storage.getCircuitRole(conversation.circuitId, user.id);
+
+  if (payload.type === 'subscribe') {
+    if (conversation.studentId !== user.id && !role) {
+      return send(client, { type: 'error', error: 'Conversation not found' });
+    }
+    client.conversationIds.add(conversation.id);
+
+    // Tell a student who reopens the chat that a teacher is already there
+    const teacher = conversation.takenOverBy ? await storage.getUser(conversation.takenOverBy) : undefined;
+    send(client, {
+      type: 'takeover',
+      circuitId: conversation.circuitId,
+      conversationId: conversation.id,
+      teacherId: teacher?.id ?? null,
+      teacherName: teacher ? displayName(teacher) : null,
+    });
+    return;
+  }
+
+  // Taking over, replying and handing back are for the circuit's teachers
+  if (!canManageCircuit(role)) {
+    return send(client, { type: 'error', error: 'Only teachers of this circuit can join the chat' });
+  }
+
+  if (payload.type === 'takeover') {
+    if (conversation.takenOverBy === user.id) return;
+    if (conversation.takenOverBy) {
+      return send(client, { type: 'error', error: 'Another teacher is already in this chat' });
+    }
+    const wasFollowing = client.conversationIds.has(conversation.id);
+    client.conversationIds.add(conversation.id);
+    if (!await setTakeover(conversation, user, true)) {
+      if (!wasFollowing) client.conversationIds.delete(conversation.id);
+      return send(client, { type: 'error', error: 'Another teacher is already in this chat' });
+    }
+    return;
+  }
+
+  if (conversation.takenOverBy !== user.id) {
+    return send(client, { type: 'error', error: 'Join the chat before sending messages' });
+  }
+
+  if (payload.type === 'message') {
+    const message = await storage.addMessage({
+      conversationId: conversation.id,
+      role: 'teacher',
+      content: payload.content,
+      authorId: user.id,
+      authorName: displayName(user),
+    });
+    liveChatService.publishMessage(conversation, message);
+  } else if (payload.type === 'release') {
+    await setTakeover(conversation, user, false);
+  }
+}
+
+// A teacher who closes their last tab hands their chats back, so the tutor
+// never stays paused with nobody answering
+async function releaseAbandonedChats(client: LiveChatClient) {
+  const stillConnected = Array.from(clients).some(other => other.user.id === client.user.id);
+  if (stillConnected) return;
+
+  for (const conversationId of Array.from(client.conversationIds)) {
+    const conversation = await storage.getConversation(conversationId);
+    if (conversation?.takenOverBy === client.user.id) {
+      await setTakeover(conversation, client.user, false);
+    }
+  }
+}
+
+export const liveChatService = {
+  // Serve the live chat WebSocket alongside the HTTP routes. Only upgrades on
+  // LIVE_CHAT_PATH are handled; the rest (such as Vite's HMR socket) are left alone.
+  attach(server: Server) {
+    const wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', async (req, socket, head) => {
+      if (req.url?.split('?')[0] !== LIVE_CHAT_PATH) return;
+
+      const user = await authenticateUpgrade(req);
+      if (!user) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: LiveChatClient = { socket: ws, user, circuitIds: new Set(), conversationIds: new Set() };
+        clients.add(client);
+
+        ws.on('message', async (data) => {
+          try {
+            const parsed = liveChatClientMessageSchema.safeParse(JSON.parse(data.toString()));
+            if (!parsed.success) {
+              return send(client, { type: 'error', error: 'Invalid message' });
+            }
+            await handleClientMessage(client, parsed.data);
+          } catch (error) {
+            console.error('Live chat error:', error);
+            send(client, { type: 'error', error: 'Something went wrong' });
+          }
+        });
+
+        ws.on('close', () => {
+          clients.delete(client);
+          releaseAbandonedChats(client).catch(error => {
+            console.error('Error releasing live chats:', error);
+          });
+        });
+      });
+    });
+  },
+
+  // Push a newly saved message to the teachers watching the circuit and
+  // whoever has the conversation open
+  publishMessage(conversation: Conversation, message: Message) {
+    publish(conversation, {
+      type: 'message',
+      circuitId: conversation.circuitId,
+      conversationId: conversation.id,
+      message: toPublicMessage(message),
+    });
+  },
+};
@@ -0,0 +1,297 @@
+import OpenAI from 'openai';
+import type { Conversation, InsertModerationFlag, ModerationCategory } from '@shared/schema';
+import type { ChatImage } from './openai-service';
+import { storage } from '../storage';
+
+export type ModerationSeverity = 'low' | 'high';
+
+export interface ModerationResult {
+  flagged: boolean;
+  severity: ModerationSeverity | null; // the worst severity found, null when clean
+  categories: ModerationCategory[];
+  matches: string[]; // exact text that triggered a rule, when the classifier can tell
+}
+
+// Classifiers are interchangeable; pick one with MODERATION_CLASSIFIER
+export interface ModerationClassifier {
+  name: string;
+  classify(text: string, grade: string): Promise<ModerationResult>;
+}
+
+export interface ModerationOutcome {
+  action: InsertModerationFlag['action'];
+  text: string; // what to send or pass on after moderation
+  result: ModerationResult;
+}
+
+interface ModerationRule {
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+  pattern: RegExp;
+  maxGrade?: number; // only applies up to this grade (Kindergarten is 0)
+}
+
+const CLEAN_RESULT: ModerationResult = { flagged: false, severity: null, categories: [], matches: [] };
+
+// Sent in place of replies that cannot be softened
+const BLOCKED_REPLY = "That's not something I can help with here. " +
+  "Let's get back to your class work. What are you learning about right now?";
+
+const RULES: ModerationRule[] = [
+  { category: 'profanity', severity: 'low', pattern: /\b(damn|hell|crap|sucks?)\b/gi, maxGrade: 8 },
+  { category: 'profanity', severity: 'low', pattern: /\b(f+u+c+k+\w*|sh[i1]t+\w*|b[i1]tch\w*|a+s+s+h+o+l+e+s?|bastards?|wtf|stfu)\b/gi },
+  { category: 'sexual', severity: 'high', pattern: /\b(porn\w*|nudes?|sexting|sexy|hookup|onlyfans|xxx)\b/gi },
+  { category: 'sexual', severity: 'high', pattern: /\b(have|having|had) sex\b/gi },
+  { category: 'violence', severity: 'high', pattern: /\b(make|build|buy) (a |an )?(bomb|gun|explosive|weapon)s?\b/gi },
+  { category: 'violence', severity: 'high', pattern: /\b(i('m| am) going to|i will|gonna) (kill|shoot|stab|hurt) (him|her|them|you|everyone|somebody|someone)\b/gi },
+  { category: 'violence', severity: 'low', pattern: /\b(gore|gory|beheading|torture)\b/gi, maxGrade: 8 },
+  { category: 'drugs', severity: 'low', pattern: /\b(weed|vap(e|ing)|get(ting)? high|get(ting)? drunk|cocaine|meth|heroin|fentanyl)\b/gi, maxGrade: 5 },
+  { category: 'harassment', severity: 'low', pattern: /\b(you('re| are) (so )?(stupid|dumb|ugly|fat)|kill yourself|kys|loser)\b/gi },
+  { category: 'hate', severity: 'high', pattern: /\b(subhuman|go back to your country|white power|heil)\b/gi },
+];
+
+function gradeNumber(grade: string): number {
+  return grade === 'K' ? 0 : parseInt(grade) || 0;
+}
+
+function worstSeverity(a: ModerationSeverity | null, b: ModerationSeverity): ModerationSeverity {
+  return a === 'high' || b === 'high' ? 'high' : 'low';
+}
+
+// Keyword and pattern rules tuned by grade; works offline with no API calls
+export const ruleBasedClassifier: ModerationClassifier = {
+  name: 'rules',
+
+  async classify(text, grade) {
+    const studentGrade = gradeNumber(grade);
+    const result: ModerationResult = { flagged: false, severity: null, categories: [], matches: [] };
+
+    for (const rule of RULES) {
+      if (rule.maxGrade !== undefined && studentGrade > rule.maxGrade) continue;
+
+      const found = text.match(rule.pattern);
+      if (!found) continue;
+
+      result.flagged = true;
+      result.severity = worstSeverity(result.severity, rule.severity);
+      result.matches.push(...found);
+      if (!result.categories.includes(rule.category)) {
+        result.categories.push(rule.category);
+      }
+    }
+
+    return result;
+  },
+};
+
+// OpenAI's moderation endpoint catches more than the rules do, but needs the network
+// and is not grade-aware, so everything it flags is treated the same for every grade
+const HIGH_SEVERITY_OPENAI_CATEGORIES = ['sexual', 'sexual/minors', 'violence/graphic', 'hate/threatening', 'harassment/threatening', 'illicit/violent', 'self-harm/instructions'];
+
+const OPENAI_CATEGORY_MAP: Record<string, ModerationCategory> = {
+  'harassment': 'harassment',
+  'harassment/threatening': 'harassment',
+  'hate': 'hate',
+  'hate/threatening': 'hate',
+  'illicit': 'drugs',
+  'illicit/violent': 'violence',
+  'self-harm': 'self-harm',
+  'self-harm/instructions': 'self-harm',
+  'self-harm/intent': 'self-harm',
+  'sexual': 'sexual',
+  'sexual/minors': 'sexual',
+  'violence': 'violence',
+  'violence/graphic': 'violence',
+};
+
+function openAIResult(moderation: OpenAI.Moderation | undefined): ModerationResult {
+  if (!moderation?.flagged) {
+    return CLEAN_RESULT;
+  }
+
+  const result: ModerationResult = { flagged: true, severity: 'low', categories: [], matches: [] };
+  for (const [category, flagged] of Object.entries(moderation.categories)) {
+    if (!flagged) continue;
+
+    if (HIGH_SEVERITY_OPENAI_CATEGORIES.includes(category)) {
+      result.severity = 'high';
+    }
+    const mapped = OPENAI_CATEGORY_MAP[category];
+    if (mapped && !result.categories.includes(mapped)) {
+      result.categories.push(mapped);
+    }
+  }
+
+  return result;
+}
+
+export const openAIModerationClassifier: ModerationClassifier = {
+  name: 'openai',
+
+  async classify(text) {
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const response = await openai.moderations.create({ model: 'omni-moderation-latest', input: text });
+    return openAIResult(response.results[0]);
+  },
+};
+
+const CLASSIFIERS: Record<string, ModerationClassifier> = {
+  rules: ruleBasedClassifier,
+  openai: openAIModerationClassifier,
+};
+
+function getClassifier(): ModerationClassifier {
+  return CLASSIFIERS[process.env.MODERATION_CLASSIFIER || 'rules'] ?? ruleBasedClassifier;
+}
+
+async function classify(text: string, grade: string): Promise<ModerationResult> {
+  try {
+    return await getClassifier().classify(text, grade);
+  } catch (error) {
+    // Fall back to the local rules rather than letting unscreened text through
+    console.error('Moderation classifier failed, using local rules:', error);
+    return await ruleBasedClassifier.classify(text, grade);
+  }
+}
+
+// The rules can only read text, so photos always go to OpenAI's moderation
+// endpoint. A photo it could not judge is treated as serious rather than let
+// through unscreened.
+async function classifyImage(image: ChatImage): Promise<ModerationResult> {
+  try {
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const response = await openai.moderations.create({
+      model: 'omni-moderation-latest',
+      input: [{ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data.toString('base64')}` } }],
+    });
+    return openAIResult(response.results[0]);
+  } catch (error) {
+    console.error('Image moderation failed, blocking the photo:', error);
+    return { flagged: true, severity: 'high', categories: [], matches: [] };
+  }
+}
+
+function mergeResults(a: ModerationResult, b: ModerationResult): ModerationResult {
+  if (!b.flagged) return a;
+  if (!a.flagged) return b;
+  return {
+    flagged: true,
+    severity: worstSeverity(a.severity, b.severity ?? 'low'),
+    categories: Array.from(new Set([...a.categories, ...b.categories])),
+    matches: [...a.matches, ...b.matches],
+  };
+}
+
+// Blank out everything but the first letter of each match
+function maskMatches(text: string, matches: string[]): string {
+  return matches.reduce(
+    (masked, match) => masked.split(match).join(match[0] + '*'.repeat(match.length - 1)),
+    text
+  );
+}
+
+export const moderationService = {
+  blockedReply: BLOCKED_REPLY,
+
+  // Student messages with serious content never reach the model; milder ones go
+  // through unchanged but are still flagged for the teacher. An attached photo
+  // is screened along with the text.
+  async screenStudentMessage(text: string, grade: string, image?: ChatImage): Promise<ModerationOutcome> {
+    let result = await classify(text, grade);
+    if (image) {
+      result = mergeResults(result, await classifyImage(image));
+    }
+    return { action: result.severity === 'high' ? 'blocked' : 'allowed', text, result };
+  },
+
+  // Tutor replies are softened by masking the offending words where the
+  // classifier can point at them, and replaced outright otherwise
+  async screenReply(text: string, grade: string): Promise<ModerationOutcome> {
+    const result = await classify(text, grade);
+    if (!result.flagged) {
+      return { action: 'allowed', text, result };
+    }
+    if (result.severity === 'low' && result.matches.length > 0) {
+      return { action: 'softened', text: maskMatches(text, result.matches), result };
+    }
+    return { action: 'blocked', text: BLOCKED_REPLY, result };
+  },
+
+  // Screen a streamed reply a sentence at a time, so nothing reaches the
+  // student before it has been checked
+  createReplyScreener(grade: string) {
+    let pending = '';
+    const outcomes: ModerationOutcome[] = [];
+
+    const screen = async (chunk: string): Promise<ModerationOutcome> => {
+      const outcome = await moderationService.screenReply(chunk, grade);
+      if (outcome.result.flagged) {
+        outcomes.push(outcome);
+      }
+      return outcome;
+    };
+
+    return {
+      // Returns the screened text once a sentence is complete, or null while still buffering
+      async push(token: string): Promise<ModerationOutcome | null> {
+        pending += token;
+
+        // Everything up to the last finished sentence or line
+        const complete = pending.match(/^[\s\S]*(?:[.!?]\s|\n)/);
+        if (!complete) {
+          return null;
+        }
+        pending = pending.slice(complete[0].length);
+        return await screen(complete[0]);
+      },
+
+      async flush(): Promise<ModerationOutcome | null> {
+        if (!pending) {
+          return null;
+        }
+        const chunk = pending;
+        pending = '';
+        return await screen(chunk);
+      },
+
+      // Everything that was flagged in the reply, merged into one outcome
+      summary(finalText: string): ModerationOutcome | null {
+        if (outcomes.length === 0) {
+          return null;
+        }
+        const blocked = outcomes.some(outcome => outcome.action === 'blocked');
+        return {
+          action: blocked ? 'blocked' : 'softened',
+          text: finalText,
+          result: {
+            flagged: true,
+            severity: blocked ? 'high' : 'low',
+            categories: Array.from(new Set(outcomes.flatMap(outcome => outcome.result.categories))),
+            matches: outcomes.flatMap(outcome => outcome.result.matches),
+          },
+        };
+      },
+    };
+  },
+
+  async recordFlag(
+    conversation: Conversation,
+    messageId: number | null,
+    source: InsertModerationFlag['source'],
+    content: string,
+    outcome: ModerationOutcome
+  ) {
+    return await storage.createModerationFlag({
+      circuitId: conversation.circuitId,
+      conversationId: conversation.id,
+      messageId,
+      studentId: conversation.studentId,
+      source,
+      categories: outcome.result.categories,
+      severity: outcome.result.severity ?? 'low',
+      action: outcome.action,
+      classifier: getClassifier().name,
+      content,
+    });
+  },
+};
@@ -4,13 +4,39 @@ import type { WisdomCircuit } from "@shared/schema";
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
-interface CircuitContext {
+export interface CircuitContext {
   circuit: WisdomCircuit;
   teachingStyles: string[];
   homeworkPolicies: string[];
   responseTypes: string[];
   stateAlignment: string;
-  uploadedContent?: string[];
+  knowledgeSources?: KnowledgeSource[];
+  correctedAnswers?: { question: string; answer: string }[]; // teacher fixes for similar questions
+}
+
+// Circuit content the tutor can answer from, numbered [1], [2]... in the prompt
+export interface KnowledgeSource {
+  id: number;
+  title: string;
+  content: string;
+  contentUrl: string;
+}
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Earlier turns of the conversation sent along with the new message
+export interface ChatHistory {
+  summary: string | null;
+  turns: ChatTurn[];
+}
+
+// A photo the student attached to their message, such as a worksheet
+export interface ChatImage {
+  mimeType: string;
+  data: Buffer;
 }
 
 export class OpenAIService {
@@ -60,6 +86,15 @@ export class OpenAIService {
       .filter(Boolean)
       .join(', ');
 
+    // Answers the teacher fixed after students flagged them
+    const corrections = context.correctedAnswers?.length
+      ? `Teacher Corrections:
+Your teacher corrected earlier answers to questions like this one. Base your answer on the corrected answer, adapting it to the question asked:
+${context.correctedAnswers.map(correction => `Question: ${correction.question}\nCorrected answer: ${correction.answer}`).join('\n\n')}
+
+`
+      : '';
+
     return `You are an educational AI assistant for ${gradeLevel} students, specializing in ${context.circuit.name}.
 Teaching Approach: Utilize ${teachingStyleDesc}.
 Homework Guidance: ${homeworkApproach}.
@@ -71,43 +106,342 @@ Key Guidelines:
 2. Use age-appropriate examples and analogies
 3. Maintain a supportive and encouraging tone
 4. Follow the specified teaching styles and response formats
-5. Reference relevant uploaded content when applicable
+5. Reference relevant uploaded content when applicable, citing it by its number in square brackets, like [1], right after what it supports
 
 Knowledge Base:
-${context.uploadedContent ? context.uploadedContent.join('\n') : 'No specific content uploaded yet.'}
+${context.knowledgeSources?.length
+  ? context.knowledgeSources.map((source, index) => `[${index + 1}] ${source.title}:\n${source.content}`).join('\n\n')
+  : 'No specific content uploaded yet.'}
 
-Remember to:
+${corrections}Remember to:
 - Keep explanations appropriate for ${gradeLevel} students
 - Use the teaching styles specified: ${teachingStyleDesc}
 - Follow the homework policy: ${homeworkApproach}
-- Maintain the response style: ${responseStyle}`;
+- Maintain the response style: ${responseStyle}
+- Format replies in Markdown, writing math as LaTeX between $...$ (inline) or $$...$$ (on its own line)`;
+  }
+
+  // The student's side of a request, with their photo inlined for the vision model
+  private static userContent(text: string, image?: ChatImage): OpenAI.Chat.ChatCompletionUserMessageParam['content'] {
+    if (!image) {
+      return text;
+    }
+
+    return [
+      { type: "text", text },
+      { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data.toString('base64')}` } },
+    ];
+  }
+
+  private static buildChatMessages(
+    message: string,
+    context: CircuitContext,
+    history?: ChatHistory,
+    image?: ChatImage
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      {
+        role: "system",
+        content: this.generateSystemPrompt(context),
+      },
+    ];
+
+    if (history?.summary) {
+      messages.push({
+        role: "system",
+        content: `Summary of the earlier part of this conversation:\n${history.summary}`,
+      });
+    }
+
+    messages.push(...(history?.turns ?? []));
+    messages.push({
+      role: "user",
+      content: this.userContent(message, image),
+    });
+
+    return messages;
   }
 
   static async processChatMessage(
     message: string,
-    context: CircuitContext
+    context: CircuitContext,
+    history?: ChatHistory,
+    image?: ChatImage
   ): Promise<string> {
+    try {
+      const response = await openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: this.buildChatMessages(message, context, history, image),
+        temperature: 0.7, // Balanced between creativity and consistency
+        max_tokens: 500, // Reasonable length for educational responses
+      });
+
+      return response.choices[0].message.content || "I apologize, but I couldn't generate a response. Please try rephrasing your question.";
+    } catch (error) {
+      console.error("OpenAI API Error:", error);
+      throw new Error("Failed to process your message. Please try again later.");
+    }
+  }
+
+  // Yields the response a token at a time; aborting the signal cancels the upstream request
+  static async *streamChatMessage(
+    message: string,
+    context: CircuitContext,
+    history?: ChatHistory,
+    image?: ChatImage,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    const stream = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: this.buildChatMessages(message, context, history, image),
+      temperature: 0.7,
+      max_tokens: 500,
+      stream: true,
+    }, { signal });
+
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        yield token;
+      }
+    }
+  }
+
+  // Judge whether a draft reply hands the student a direct solution
+  static async checkHomeworkPolicy(
+    studentMessage: string,
+    draft: string,
+    policies: string[],
+    image?: ChatImage
+  ): Promise<{ leaksSolution: boolean; reason: string }> {
     try {
       const response = await openai.chat.completions.create({
         model: "gpt-4o",
         messages: [
           {
             role: "system",
-            content: this.generateSystemPrompt(context),
+            content: `You review replies from an AI tutor before a student sees them.
+            The teacher's homework policies are: ${policies.join(", ")}.
+            "guide" means the tutor must guide the student without giving direct solutions.
+            "no_solutions" means the tutor must never give final answers, worked solutions or finished work the student could hand in.
+            Decide whether the reply breaks these policies by giving away a direct solution.
+            Explaining concepts, giving hints, asking guiding questions and working a different example are allowed.
+            Respond with JSON: { "leaksSolution": boolean, "reason": "one short sentence" }`,
           },
           {
             role: "user",
-            content: message,
+            content: this.userContent(`Student asked:\n${studentMessage}\n\nTutor reply:\n${draft}`, image),
           },
         ],
-        temperature: 0.7, // Balanced between creativity and consistency
-        max_tokens: 500, // Reasonable length for educational responses
+        response_format: { type: "json_object" },
+        temperature: 0, // Deterministic verdicts
+        max_tokens: 150,
       });
 
-      return response.choices[0].message.content || "I apologize, but I couldn't generate a response. Please try rephrasing your question.";
+      const verdict = JSON.parse(response.choices[0].message.content || "{}");
+      return {
+        leaksSolution: verdict.leaksSolution === true,
+        reason: typeof verdict.reason === "string" ? verdict.reason : "",
+      };
     } catch (error) {
-      console.error("OpenAI API Error:", error);
-      throw new Error("Failed to process your message. Please try again later.");
+      console.error("OpenAI Policy Check Error:", error);
+      throw new Error("Failed to check the response against the homework policy.");
+    }
+  }
+
+  // Rewrite a draft that gave away the answer so it guides the student instead
+  static async rewriteForHomeworkPolicy(
+    studentMessage: string,
+    draft: string,
+    reason: string,
+    context: CircuitContext,
+    image?: ChatImage
+  ): Promise<string> {
+    try {
+      const response = await openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+          {
+            role: "system",
+            content: `${this.generateSystemPrompt(context)}
+
+Your previous draft reply gave away a direct solution (${reason}), which the teacher's homework policy forbids.
+Rewrite it so it helps the student reach the answer themselves: explain the idea, give hints and ask guiding questions.
+Do not state the final answer or a complete worked solution. Reply with the rewritten message only.`,
+          },
+          {
+            role: "user",
+            content: this.userContent(`Student asked:\n${studentMessage}\n\nDraft reply:\n${draft}`, image),
+          },
+        ],
+        temperature: 0.5,
+        max_tokens: 500,
+      });
+
+      return response.choices[0].message.content || "";
+    } catch (error) {
+      console.error("OpenAI Rewrite Error:", error);
+      throw new Error("Failed to rewrite the response.");
+    }
+  }
+
+  // Fold turns that no longer fit in the history budget into the running summary
+  static async summarizeConversation(
+    previousSummary: string | null,
+    turns: ChatTurn[]
+  ): Promise<string> {
+    try {
+      const transcript = turns
+        .map(turn => `${turn.role === "user" ? "Student" : "Tutor"}: ${turn.content}`)
+        .join("\n");
+
+      const response = await openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+          {
+            role: "system",
+            content: `You maintain a running summary of a tutoring conversation between a student and an AI tutor.
+            Update the summary with the new turns. Keep the topics covered, the questions the student asked,
+            what was explained and anything the student is still struggling with. Be brief and factual.`,
+          },
+          {
+            role: "user",
+            content: `Current summary:\n${previousSummary || "(none yet)"}\n\nNew turns:\n${transcript}`,
+          },
+        ],
+        temperature: 0.3, // Lower temperature for faithful summaries
+        max_tokens: 300,
+      });
+
+      return response.choices[0].message.content || previousSummary || "";
+    } catch (error) {
+      console.error("OpenAI Summary Error:", error);
+      throw new Error("Failed to summarize the conversation.");
+    }
+  }
+
+  // Write practice questions on the circuit's material. Returns the raw items
+  // from the model; callers validate them before use.
+  static async generateQuizItems(
+    circuit: WisdomCircuit,
+    sources: KnowledgeSource[],
+    topic: string | null,
+    count: number
+  ): Promise<unknown[]> {
+    const gradeLevel = circuit.grade === 'K' ? 'Kindergarten' : `Grade ${circuit.grade}`;
+
+    try {
+      const response = await openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+          {
+            role: "system",
+            content: `You write practice questions for ${gradeLevel} students in ${circuit.name}.
+            Write ${count} questions${topic ? ` about "${topic}"` : ""}, based on the class material below where it covers the topic.
+            Mix the question types:
+            - "multiple_choice": { "type": "multiple_choice", "question": string, "choices": string[] (3 to 5), "answerIndex": number (0-based), "explanation": string }
+            - "numeric": { "type": "numeric", "question": string, "answer": number, "explanation": string }, only when the answer is a single number
+            - "short_answer": { "type": "short_answer", "question": string, "answer": string (a model answer of a sentence or two), "explanation": string }
+            Each explanation says why the answer is right, at a ${gradeLevel} level.
+            Write math as LaTeX between $...$.
+            Respond with JSON: { "items": [...] }
+
+            Class material:
+            ${sources.length
+              ? sources.map(source => `${source.title}:\n${source.content}`).join("\n\n")
+              : `None uploaded; use what a ${gradeLevel} class in this subject would cover.`}`,
+          },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0.7,
+        max_tokens: 2000,
+      });
+
+      const result = JSON.parse(response.choices[0].message.content || "{}");
+      return Array.isArray(result.items) ? result.items : [];
+    } catch (error) {
+      console.error("OpenAI Quiz Generation Error:", error);
+      throw new Error("Failed to generate practice questions. Please try again later.");
+    }
+  }
+
+  // Turn the vocabulary and key concepts in class material into flashcards.
+  // Returns the raw cards from the model; callers validate them before use.
+  static async generateFlashcards(
+    circuit: WisdomCircuit,
+    sources: KnowledgeSource[],
+    maxCards: number
+  ): Promise<unknown[]> {
+    const gradeLevel = circuit.grade === 'K' ? 'Kindergarten' : `Grade ${circuit.grade}`;
+
+    try {
+      const response = await openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+          {
+            role: "system",
+            content: `You make study flashcards for ${gradeLevel} students in ${circuit.name}.
+            Write up to ${maxCards} cards covering the vocabulary and key concepts in the class material.
+            The front is a term or a short question; the back is a definition or answer of one or two sentences at a ${gradeLevel} level.
+            Do not repeat a fact on more than one card. Write math as LaTeX between $...$.
+            Respond with JSON: { "cards": [{ "front": string, "back": string }] }`,
+          },
+          {
+            role: "user",
+            content: sources.map(source => `${source.title}:\n${source.content}`).join("\n\n"),
+          },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0.3,
+        max_tokens: 3000,
+      });
+
+      const result = JSON.parse(response.choices[0].message.content || "{}");
+      return Array.isArray(result.cards) ? result.cards : [];
+    } catch (error) {
+      console.error("OpenAI Flashcard Generation Error:", error);
+      throw new Error("Failed to generate flashcards. Please try again later.");
+    }
+  }
+
+  // Judge a student's short answer against the model answer
+  static async gradeShortAnswer(
+    question: string,
+    expected: string,
+    answer: string,
+    grade: string
+  ): Promise<{ correct: boolean; feedback: string }> {
+    const gradeLevel = grade === 'K' ? 'Kindergarten' : `Grade ${grade}`;
+
+    try {
+      const response = await openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+          {
+            role: "system",
+            content: `You grade short answers from ${gradeLevel} students on a practice quiz.
+            Mark the answer correct when it gets the key idea of the model answer right, even if it is worded differently or has small spelling mistakes.
+            Give one or two encouraging sentences of feedback addressed to the student. Do not just repeat the model answer.
+            Respond with JSON: { "correct": boolean, "feedback": string }`,
+          },
+          {
+            role: "user",
+            content: `Question:\n${question}\n\nModel answer:\n${expected}\n\nStudent answer:\n${answer}`,
+          },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0, // Deterministic verdicts
+        max_tokens: 200,
+      });
+
+      const verdict = JSON.parse(response.choices[0].message.content || "{}");
+      return {
+        correct: verdict.correct === true,
+        feedback: typeof verdict.feedback === "string" ? verdict.feedback : "",
+      };
+    } catch (error) {
+      console.error("OpenAI Grading Error:", error);
+      throw new Error("Failed to check the answer. Please try again.");
     }
   }
 
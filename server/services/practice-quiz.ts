@@ -0,0 +1,101 @@
+import { generatedQuizItemSchema, type PracticeQuizWithItems, type QuizItem, type StudentQuizItem, type WisdomCircuit } from '@shared/schema';
+import { OpenAIService } from './openai-service';
+import { storage } from '../storage';
+
+const QUIZ_LENGTH = 5;
+// Leeway for floating point error when comparing numeric answers
+const NUMERIC_EPSILON = 1e-9;
+
+// "1,250", " 3.5 " and "-2" all read as numbers; anything else does not
+function parseNumber(text: string): number | null {
+  const cleaned = text.replace(/,/g, '').trim();
+  if (!/^-?(\d+\.?\d*|\.\d+)(e-?\d+)?$/i.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
+
+// How far an answer may be from the stored one. Whole numbers must match
+// exactly; a decimal answer counts when it rounds to the stored answer at the
+// stored precision, so 3.141 is right for 3.14 but 3.2 is not.
+function numericTolerance(expected: string): number {
+  const decimals = expected.match(/\.(\d+)$/)?.[1].length ?? 0;
+  return decimals === 0 ? 0 : 0.5 * 10 ** -decimals;
+}
+
+export const practiceQuizService = {
+  // Generate a quiz on the circuit's content for one student and store it with
+  // its answer key. Malformed items from the model are dropped.
+  async create(circuit: WisdomCircuit, studentId: number, topic: string | null): Promise<PracticeQuizWithItems> {
+    const content = await storage.getCircuitContent(circuit.id);
+    const sources = content.map(c => ({
+      id: c.id,
+      title: c.title,
+      content: c.content || c.description || '',
+      contentUrl: c.contentUrl,
+    }));
+
+    const generated = await OpenAIService.generateQuizItems(circuit, sources, topic, QUIZ_LENGTH);
+    const items = generated
+      .map(item => generatedQuizItemSchema.safeParse(item))
+      .flatMap(result => result.success ? [result.data] : [])
+      .filter(item => item.type !== 'multiple_choice' || item.answerIndex < item.choices.length)
+      .slice(0, QUIZ_LENGTH)
+      .map((item, position) => ({
+        position,
+        type: item.type,
+        question: item.question,
+        choices: item.type === 'multiple_choice' ? item.choices : null,
+        answer: item.type === 'multiple_choice' ? item.answerIndex.toString() : item.answer.toString(),
+        explanation: item.explanation,
+      }));
+
+    if (items.length === 0) {
+      throw new Error("Failed to generate practice questions. Please try again later.");
+    }
+
+    return await storage.createPracticeQuiz({ circuitId: circuit.id, studentId, topic }, items);
+  },
+
+  // Why an answer cannot be graded, or null when it can. Badly formed answers
+  // are turned away without using up the student's one try at the item.
+  answerError(item: QuizItem, answer: string): string | null {
+    if (item.type === 'multiple_choice') {
+      const choice = parseInt(answer);
+      const choices = item.choices as string[];
+      return /^\d+$/.test(answer.trim()) && choice < choices.length ? null : 'Choose one of the options';
+    }
+    if (item.type === 'numeric' && parseNumber(answer) === null) {
+      return 'Answer with a number';
+    }
+    return null;
+  },
+
+  // Mark an answer right or wrong. Multiple choice answers are the chosen index.
+  async grade(item: QuizItem, answer: string, grade: string): Promise<Pick<QuizItem, 'isCorrect' | 'feedback'>> {
+    switch (item.type) {
+      case 'multiple_choice':
+        return { isCorrect: parseInt(answer) === parseInt(item.answer), feedback: null };
+      case 'numeric': {
+        const value = parseNumber(answer) ?? NaN;
+        const expected = parseFloat(item.answer);
+        const tolerance = numericTolerance(item.answer) + Math.abs(expected) * NUMERIC_EPSILON;
+        return { isCorrect: Math.abs(value - expected) <= tolerance, feedback: null };
+      }
+      default: {
+        const verdict = await OpenAIService.gradeShortAnswer(item.question, item.answer, answer, grade);
+        return { isCorrect: verdict.correct, feedback: verdict.feedback || null };
+      }
+    }
+  },
+
+  // Hide the answer key for items the student has not answered yet
+  forStudent(quiz: PracticeQuizWithItems): PracticeQuizWithItems<StudentQuizItem> {
+    return {
+      ...quiz,
+      items: quiz.items.map(item => practiceQuizService.itemForStudent(item)),
+    };
+  },
+
+  itemForStudent(item: QuizItem): StudentQuizItem {
+    return item.answeredAt ? item : { ...item, answer: null, explanation: null };
+  },
+};
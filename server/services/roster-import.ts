@@ -0,0 +1,269 @@
+import { randomBytes } from 'crypto';
+import type { RosterImportReport, RosterImportRow } from '@shared/schema';
+import { storage } from '../storage';
+import { hashPassword } from '../auth';
+
+export interface RosterCandidate {
+  row: number; // 1-based line in the source file, counting the header
+  email: string;
+  displayName: string | null;
+  password: string | null;
+}
+
+export interface RosterParseResult {
+  candidates: RosterCandidate[];
+  rejected: RosterImportRow[];
+}
+
+export interface ImportStudentsParams {
+  candidates: RosterCandidate[];
+  organizationId: number | null;
+  circuitIds: number[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Splits CSV text into rows of fields, honouring quoted fields with embedded
+// commas, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Turns CSV text into one record per line keyed by normalized header name
+// ("First Name", "first_name" and "firstName" all become "firstname")
+function parseRecords(text: string): { row: number; values: Record<string, string> }[] {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map(key => key.toLowerCase().replace(/[^a-z0-9]/g, ''));
+
+  return lines
+    .map((fields, index) => ({
+      row: index + 2,
+      values: Object.fromEntries(keys.map((key, i) => [key, (fields[i] ?? '').trim()])),
+    }))
+    .filter(record => Object.values(record.values).some(value => value !== ''));
+}
+
+function toCandidate(
+  row: number,
+  email: string | undefined,
+  displayName: string | undefined,
+  password: string | undefined
+): RosterCandidate | RosterImportRow {
+  const normalizedEmail = email?.trim().toLowerCase() || null;
+  if (!normalizedEmail || !EMAIL_PATTERN.test(normalizedEmail)) {
+    return {
+      row,
+      email: normalizedEmail,
+      status: 'error',
+      message: normalizedEmail ? 'Invalid email address' : 'Missing email address',
+    };
+  }
+
+  return {
+    row,
+    email: normalizedEmail,
+    displayName: displayName?.trim() || null,
+    password: password || null,
+  };
+}
+
+function collect(results: (RosterCandidate | RosterImportRow)[]): RosterParseResult {
+  const candidates: RosterCandidate[] = [];
+  const rejected: RosterImportRow[] = [];
+  const seen = new Set<string>();
+
+  for (const result of results) {
+    if ('status' in result) {
+      rejected.push(result);
+    } else if (seen.has(result.email)) {
+      rejected.push({
+        row: result.row,
+        email: result.email,
+        status: 'skipped',
+        message: 'Duplicate email in file',
+      });
+    } else {
+      seen.add(result.email);
+      candidates.push(result);
+    }
+  }
+
+  return { candidates, rejected };
+}
+
+function joinName(...parts: (string | undefined)[]) {
+  return parts.filter(Boolean).join(' ');
+}
+
+export const rosterImportService = {
+  // Simple roster: an "email" column plus optional "name" (or first/last
+  // name) and "password" columns
+  parseRosterCsv(text: string): RosterParseResult {
+    return collect(parseRecords(text).map(({ row, values }) => toCandidate(
+      row,
+      values.email,
+      values.displayname || values.name || joinName(values.firstname, values.lastname),
+      values.password
+    )));
+  },
+
+  // OneRoster 1.1 users.csv, optionally narrowed by enrollments.csv to the
+  // users enrolled as students in at least one class
+  parseOneRoster(usersText: string, enrollmentsText?: string): RosterParseResult {
+    let enrolledStudentIds: Set<string> | null = null;
+    if (enrollmentsText) {
+      enrolledStudentIds = new Set(
+        parseRecords(enrollmentsText)
+          .filter(({ values }) => values.role === 'student' && values.status !== 'tobedeleted')
+          .map(({ values }) => values.usersourcedid)
+      );
+    }
+
+    const results: (RosterCandidate | RosterImportRow)[] = [];
+    for (const { row, values } of parseRecords(usersText)) {
+      // Teachers, guardians and administrators in the export are not imported
+      if (values.role !== 'student') {
+        continue;
+      }
+      if (values.status === 'tobedeleted' || values.enableduser === 'false') {
+        results.push({ row, email: values.email || null, status: 'skipped', message: 'User is disabled in OneRoster' });
+        continue;
+      }
+      if (enrolledStudentIds && !enrolledStudentIds.has(values.sourcedid)) {
+        results.push({ row, email: values.email || null, status: 'skipped', message: 'User has no student enrollment' });
+        continue;
+      }
+      results.push(toCandidate(
+        row,
+        values.email,
+        joinName(values.givenname, values.familyname),
+        values.password
+      ));
+    }
+
+    return collect(results);
+  },
+
+  async importStudents({ candidates, organizationId, circuitIds }: ImportStudentsParams): Promise<RosterImportRow[]> {
+    const rows: RosterImportRow[] = [];
+
+    for (const candidate of candidates) {
+      try {
+        // Accounts may have been registered with a differently cased email
+        let student = await storage.getUserByEmailIgnoreCase(candidate.email);
+        let row: RosterImportRow;
+
+        if (student) {
+          // Only student accounts from the teacher's own school or district can be enrolled
+          if (student.isTeacher || student.isAdmin || student.isGuardian) {
+            rows.push({ row: candidate.row, email: candidate.email, status: 'error', message: 'Email belongs to a non-student account' });
+            continue;
+          }
+          if (organizationId === null || student.organizationId !== organizationId) {
+            rows.push({
+              row: candidate.row,
+              email: candidate.email,
+              status: 'error',
+              message: 'Account already exists outside your organization; the student can join with the circuit code',
+            });
+            continue;
+          }
+
+          row = {
+            row: candidate.row,
+            email: candidate.email,
+            status: 'skipped',
+            message: circuitIds.length > 0 ? 'Account already exists; enrolled in selected circuits' : 'Account already exists',
+          };
+        } else {
+          const temporaryPassword = candidate.password ? undefined : randomBytes(6).toString('base64url');
+          student = await storage.createUser({
+            email: candidate.email,
+            password: await hashPassword(candidate.password ?? temporaryPassword!),
+            isTeacher: false,
+            displayName: candidate.displayName,
+            organizationId,
+          });
+          row = { row: candidate.row, email: candidate.email, status: 'created', temporaryPassword };
+        }
+
+        // Importing a student who asked to join approves the request, but a
+        // blocked student stays blocked until unblocked on the roster
+        let blockedIn = 0;
+        for (const circuitId of circuitIds) {
+          const enrollment = await storage.enrollStudent(circuitId, student.id);
+          if (enrollment.status === 'pending') {
+            await storage.setEnrollmentStatus(circuitId, student.id, 'active', 'pending');
+          } else if (enrollment.status === 'blocked') {
+            blockedIn++;
+          }
+        }
+        if (blockedIn > 0) {
+          row.message = blockedIn === circuitIds.length
+            ? 'Account already exists; not enrolled because the student is blocked in the selected circuits'
+            : `Account already exists; enrolled in selected circuits except ${blockedIn} where the student is blocked`;
+        }
+        rows.push(row);
+      } catch (error: any) {
+        console.error(`Error importing roster row ${candidate.row}:`, error);
+        rows.push({ row: candidate.row, email: candidate.email, status: 'error', message: error.message });
+      }
+    }
+
+    return rows;
+  },
+
+  buildReport(rows: RosterImportRow[]): RosterImportReport {
+    const sortedRows = [...rows].sort((a, b) => a.row - b.row);
+    return {
+      created: sortedRows.filter(row => row.status === 'created').length,
+      skipped: sortedRows.filter(row => row.status === 'skipped').length,
+      errors: sortedRows.filter(row => row.status === 'error').length,
+      rows: sortedRows,
+    };
+  },
+};
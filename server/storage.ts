@@ -1,6 +1,6 @@
-import { users, type User, type InsertUser, organizations, type Organization, type InsertOrganization, subscriptionPlans, type SubscriptionPlan, type InsertSubscriptionPlan, subscriptions, type Subscription, type InsertSubscription, circuitAllocations, type CircuitAllocation, type InsertCircuitAllocation, payments, type Payment, type InsertPayment, wisdomCircuits, type WisdomCircuit, type InsertWisdomCircuit, circuitPrompts, type CircuitPrompt, type InsertCircuitPrompt, circuitContent, type CircuitContent, type InsertCircuitContent } from "@shared/schema";
+import { users, type User, type InsertUser, organizations, type Organization, type InsertOrganization, subscriptionPlans, type SubscriptionPlan, type InsertSubscriptionPlan, subscriptions, type Subscription, type InsertSubscription, circuitAllocations, type CircuitAllocation, type InsertCircuitAllocation, payments, type Payment, type InsertPayment, wisdomCircuits, type WisdomCircuit, type InsertWisdomCircuit, circuitPrompts, type CircuitPrompt, type InsertCircuitPrompt, circuitContent, type CircuitContent, type InsertCircuitContent, circuitEnrollments, type CircuitEnrollment, type RosterEntry, type CircuitCodeSettings, type CircuitChatSettings, circuitSections, type CircuitSection, type InsertCircuitSection, circuitMembers, type CircuitMember, type InsertCircuitMember, type CircuitMemberEntry, type CircuitRole, circuitActivity, guardianLinks, type GuardianLink, type GuardianLinkEntry, type GuardianVisibility, type CircuitJoinSettings, type JoinRequest, conversations, type Conversation, type ConversationSummary, messages, type Message, type InsertMessage, policyInterventions, type PolicyIntervention, type InsertPolicyIntervention, type PolicyInterventionReport, moderationFlags, type ModerationFlag, type InsertModerationFlag, type ModerationFlagEntry, crisisAlerts, type CrisisAlert, type InsertCrisisAlert, type CrisisAlertEntry, crisisAlertNotifications, type CrisisAlertNotification, messageNotes, type MessageNote, type MessageNoteEntry, type TranscriptQuery, type TranscriptPage, messageFeedback, type MessageFeedback, type MessageFeedbackInput, type MessageFeedbackEntry, correctedAnswers, type CorrectedAnswer, practiceQuizzes, type PracticeQuiz, quizItems, type QuizItem, type PracticeQuizWithItems, type QuizResultEntry, flashcardDecks, type FlashcardDeck, type FlashcardDeckWithCards, flashcards, type Flashcard, type FlashcardInput, flashcardReviews, type FlashcardReview, type DueFlashcard, type FlashcardDueCount } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or } from "drizzle-orm";
+import { eq, ne, and, or, desc, sql, inArray, isNull, isNotNull, gt, gte, lt, lte, count, exists, ilike } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
@@ -12,9 +12,11 @@ export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByEmailIgnoreCase(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
 
   // Wisdom Circuit methods
+  generateJoinCode(): Promise<string>;
   createWisdomCircuit(circuit: InsertWisdomCircuit): Promise<WisdomCircuit>;
   getWisdomCircuit(id: number): Promise<WisdomCircuit | undefined>;
   getWisdomCircuitByCode(code: string): Promise<WisdomCircuit | undefined>;
@@ -23,6 +25,10 @@ export interface IStorage {
   archiveWisdomCircuit(id: number): Promise<WisdomCircuit>;
   unarchiveWisdomCircuit(id: number): Promise<WisdomCircuit>;
   deleteWisdomCircuit(id: number): Promise<WisdomCircuit>;
+  regenerateCircuitCode(id: number): Promise<WisdomCircuit>;
+  updateCircuitCodeSettings(id: number, settings: CircuitCodeSettings): Promise<WisdomCircuit>;
+  updateCircuitChatSettings(id: number, settings: CircuitChatSettings): Promise<WisdomCircuit>;
+  claimCircuitCodeUse(id: number): Promise<boolean>;
 
   // Circuit prompts methods
   createCircuitPrompt(prompt: InsertCircuitPrompt): Promise<CircuitPrompt>;
@@ -36,11 +42,110 @@ export interface IStorage {
   getCircuitContentById(id: number): Promise<CircuitContent | undefined>;
   archiveCircuitContent(id: number): Promise<CircuitContent>;
 
+  // Section methods
+  createCircuitSection(section: InsertCircuitSection): Promise<CircuitSection>;
+  getCircuitSections(circuitId: number): Promise<CircuitSection[]>;
+  getCircuitSection(id: number): Promise<CircuitSection | undefined>;
+  getCircuitSectionByCode(code: string): Promise<CircuitSection | undefined>;
+  deleteCircuitSection(id: number): Promise<CircuitSection>;
+  regenerateSectionCode(id: number): Promise<CircuitSection>;
+  updateSectionCodeSettings(id: number, settings: CircuitCodeSettings): Promise<CircuitSection>;
+  claimSectionCodeUse(id: number): Promise<boolean>;
+
+  // Enrollment methods
+  enrollStudent(circuitId: number, studentId: number, sectionId?: number | null, status?: 'active' | 'pending'): Promise<CircuitEnrollment>;
+  unenrollStudent(circuitId: number, studentId: number): Promise<CircuitEnrollment | undefined>;
+  getEnrollment(circuitId: number, studentId: number): Promise<CircuitEnrollment | undefined>;
+  getEnrolledCircuits(studentId: number): Promise<WisdomCircuit[]>;
+  getCircuitRoster(circuitId: number, sectionId?: number): Promise<RosterEntry[]>;
+  setEnrollmentSection(circuitId: number, studentId: number, sectionId: number | null): Promise<CircuitEnrollment | undefined>;
+  setEnrollmentStatus(circuitId: number, studentId: number, status: 'active' | 'blocked', fromStatus?: CircuitEnrollment['status']): Promise<CircuitEnrollment | undefined>;
+  recordEnrollmentActivity(circuitId: number, studentId: number): Promise<void>;
+  getPendingJoinRequests(userId: number): Promise<JoinRequest[]>;
+  updateCircuitJoinSettings(id: number, settings: CircuitJoinSettings): Promise<WisdomCircuit>;
+
+  // Membership methods
+  addCircuitMember(member: InsertCircuitMember): Promise<CircuitMember>;
+  removeCircuitMember(circuitId: number, userId: number): Promise<CircuitMember | undefined>;
+  getCircuitMembers(circuitId: number): Promise<CircuitMemberEntry[]>;
+  getCircuitRole(circuitId: number, userId: number): Promise<CircuitRole | undefined>;
+
+  // Guardian methods
+  createGuardianInvite(studentId: number, invitedBy: number): Promise<GuardianLink>;
+  getGuardianLinkByCode(code: string): Promise<GuardianLink | undefined>;
+  getGuardianLink(id: number): Promise<GuardianLink | undefined>;
+  acceptGuardianInvite(id: number, guardianId: number): Promise<GuardianLink | undefined>;
+  deleteGuardianLink(id: number): Promise<GuardianLink | undefined>;
+  getStudentGuardianLinks(studentId: number): Promise<GuardianLinkEntry[]>;
+  getGuardianStudents(guardianId: number): Promise<User[]>;
+  updateGuardianVisibility(circuitId: number, visibility: GuardianVisibility): Promise<WisdomCircuit>;
+  getWeeklyMessageCount(circuitId: number, studentId: number): Promise<number>;
+
+  // Conversation methods
+  createConversation(circuitId: number, studentId: number, title: string): Promise<Conversation>;
+  getConversation(id: number): Promise<Conversation | undefined>;
+  getConversationSummaries(circuitId: number, studentId: number, limit?: number): Promise<ConversationSummary[]>;
+  getConversationMessages(conversationId: number, afterId?: number): Promise<Message[]>;
+  addMessage(message: InsertMessage): Promise<Message>;
+  updateConversationSummary(id: number, summary: string, summarizedThroughId: number): Promise<Conversation>;
+  setConversationTakeover(id: number, teacherId: number | null): Promise<Conversation | undefined>;
+
+  // Transcript review methods
+  getCircuitTranscripts(circuitId: number, query: TranscriptQuery): Promise<TranscriptPage>;
+  getMessage(id: number): Promise<Message | undefined>;
+  getMessageNotes(conversationId: number): Promise<MessageNoteEntry[]>;
+  createMessageNote(messageId: number, authorId: number, content: string): Promise<MessageNote>;
+  getMessageNote(id: number): Promise<MessageNote | undefined>;
+  deleteMessageNote(id: number): Promise<MessageNote>;
+
+  // Homework guardrail audit methods
+  createPolicyIntervention(intervention: InsertPolicyIntervention): Promise<PolicyIntervention>;
+  getPolicyInterventionReport(circuitId: number, limit?: number): Promise<PolicyInterventionReport>;
+
+  // Moderation methods
+  createModerationFlag(flag: InsertModerationFlag): Promise<ModerationFlag>;
+  getModerationFlag(id: number): Promise<ModerationFlag | undefined>;
+  getModerationFlags(circuitId: number, reviewed: boolean): Promise<ModerationFlagEntry[]>;
+  reviewModerationFlag(id: number, reviewerId: number): Promise<ModerationFlag>;
+
+  // Crisis escalation methods
+  createCrisisAlert(alert: InsertCrisisAlert, recipients: Pick<CrisisAlertNotification, "recipientId" | "recipientRole">[]): Promise<CrisisAlert>;
+  getCrisisAlerts(recipientId: number, acknowledged: boolean): Promise<CrisisAlertEntry[]>;
+  acknowledgeCrisisAlert(alertId: number, recipientId: number): Promise<CrisisAlertNotification | undefined>;
+
+  // Student feedback and teacher correction methods
+  saveMessageFeedback(messageId: number, circuitId: number, studentId: number, feedback: MessageFeedbackInput): Promise<MessageFeedback>;
+  getMessageFeedback(id: number): Promise<MessageFeedback | undefined>;
+  getConversationFeedback(conversationId: number, studentId: number): Promise<MessageFeedback[]>;
+  getFeedbackQueue(circuitId: number, resolved: boolean): Promise<MessageFeedbackEntry[]>;
+  resolveMessageFeedback(id: number, teacherId: number): Promise<MessageFeedback>;
+  getPrecedingStudentMessage(conversationId: number, beforeId: number): Promise<Message | undefined>;
+  saveCorrectedAnswer(correction: Omit<CorrectedAnswer, "id" | "createdAt">): Promise<CorrectedAnswer>;
+  getCorrectedAnswers(circuitId: number): Promise<CorrectedAnswer[]>;
+  createPracticeQuiz(quiz: Pick<PracticeQuiz, "circuitId" | "studentId" | "topic">, items: Omit<QuizItem, "id" | "quizId" | "studentAnswer" | "isCorrect" | "feedback" | "answeredAt">[]): Promise<PracticeQuizWithItems>;
+  getPracticeQuiz(id: number): Promise<PracticeQuizWithItems | undefined>;
+  getQuizItem(id: number): Promise<QuizItem | undefined>;
+  answerQuizItem(id: number, result: Pick<QuizItem, "studentAnswer" | "isCorrect" | "feedback">): Promise<QuizItem | undefined>;
+  completePracticeQuiz(id: number): Promise<PracticeQuiz>;
+  getQuizResults(circuitId: number): Promise<QuizResultEntry[]>;
+  createFlashcardDeck(deck: Pick<FlashcardDeck, "circuitId" | "title" | "contentId" | "createdBy">, cards: FlashcardInput[]): Promise<FlashcardDeckWithCards>;
+  getFlashcardDeck(id: number): Promise<FlashcardDeck | undefined>;
+  getFlashcardDecks(circuitId: number): Promise<FlashcardDeckWithCards[]>;
+  deleteFlashcardDeck(id: number): Promise<void>;
+  addFlashcard(deckId: number, card: FlashcardInput): Promise<Flashcard>;
+  getFlashcard(id: number): Promise<Flashcard | undefined>;
+  deleteFlashcard(id: number): Promise<void>;
+  getDueFlashcards(circuitId: number, studentId: number, limit: number): Promise<DueFlashcard[]>;
+  getFlashcardDueCounts(studentId: number): Promise<FlashcardDueCount[]>;
+  getFlashcardReview(cardId: number, studentId: number): Promise<FlashcardReview | undefined>;
+  saveFlashcardReview(review: Omit<FlashcardReview, "id" | "lastReviewedAt">): Promise<FlashcardReview>;
+
   // Organization methods
   createOrganization(org: InsertOrganization): Promise<Organization>;
   getOrganization(id: number): Promise<Organization | undefined>;
   getOrganizationByCode(code: string): Promise<Organization | undefined>;
   updateOrganizationStatus(id: number, status: 'active' | 'inactive'): Promise<Organization>;
+  updateOrganizationCounselor(id: number, counselorId: number | null): Promise<Organization>;
 
   // Subscription plan methods
   createSubscriptionPlan(plan: InsertSubscriptionPlan): Promise<SubscriptionPlan>;
@@ -86,6 +191,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmailIgnoreCase(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`)
+      .limit(1);
+    return user;
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user;
@@ -99,12 +213,31 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async generateJoinCode(): Promise<string> {
+    // Circuit and section codes are entered in the same box, so a new code
+    // must not match either kind
+    while (true) {
+      const code = nanoid(8).toUpperCase();
+      const [circuit] = await db
+        .select({ id: wisdomCircuits.id })
+        .from(wisdomCircuits)
+        .where(eq(wisdomCircuits.code, code));
+      const [section] = await db
+        .select({ id: circuitSections.id })
+        .from(circuitSections)
+        .where(eq(circuitSections.code, code));
+      if (!circuit && !section) {
+        return code;
+      }
+    }
+  }
+
   async createWisdomCircuit(insertCircuit: InsertWisdomCircuit): Promise<WisdomCircuit> {
     const [circuit] = await db
       .insert(wisdomCircuits)
       .values({
         ...insertCircuit,
-        code: nanoid(8).toUpperCase(),
+        code: await this.generateJoinCode(),
       })
       .returning();
     return circuit;
@@ -126,6 +259,14 @@ export class DatabaseStorage implements IStorage {
     return circuit;
   }
 
+  // Circuits the user co-teaches or assists in without owning them
+  private memberCircuitIds(userId: number) {
+    return db
+      .select({ id: circuitMembers.circuitId })
+      .from(circuitMembers)
+      .where(eq(circuitMembers.userId, userId));
+  }
+
   async getWisdomCircuitsByTeacher(teacherId: number): Promise<WisdomCircuit[]> {
     try {
       console.log('Fetching active circuits for teacher:', teacherId);
@@ -133,7 +274,10 @@ export class DatabaseStorage implements IStorage {
         .select()
         .from(wisdomCircuits)
         .where(and(
-          eq(wisdomCircuits.teacherId, teacherId),
+          or(
+            eq(wisdomCircuits.teacherId, teacherId),
+            inArray(wisdomCircuits.id, this.memberCircuitIds(teacherId))
+          ),
           eq(wisdomCircuits.isArchived, false)
         ));
       console.log('Retrieved active circuits:', circuits);
@@ -151,7 +295,10 @@ export class DatabaseStorage implements IStorage {
         .select()
         .from(wisdomCircuits)
         .where(and(
-          eq(wisdomCircuits.teacherId, teacherId),
+          or(
+            eq(wisdomCircuits.teacherId, teacherId),
+            inArray(wisdomCircuits.id, this.memberCircuitIds(teacherId))
+          ),
           eq(wisdomCircuits.isArchived, true)
         ));
       console.log('Retrieved archived circuits:', circuits);
@@ -201,10 +348,84 @@ export class DatabaseStorage implements IStorage {
 
   async deleteWisdomCircuit(id: number): Promise<WisdomCircuit> {
     try {
-      // First delete all related circuit content
+      // First delete all related circuit content, conversations, members, activity, enrollments and sections
+      const decks = db.select({ id: flashcardDecks.id }).from(flashcardDecks).where(eq(flashcardDecks.circuitId, id));
+
+      await db.delete(flashcardReviews)
+        .where(inArray(
+          flashcardReviews.cardId,
+          db.select({ id: flashcards.id }).from(flashcards).where(inArray(flashcards.deckId, decks))
+        ));
+
+      await db.delete(flashcards)
+        .where(inArray(flashcards.deckId, decks));
+
+      await db.delete(flashcardDecks)
+        .where(eq(flashcardDecks.circuitId, id));
+
       await db.delete(circuitContent)
         .where(eq(circuitContent.circuitId, id));
 
+      await db.delete(policyInterventions)
+        .where(eq(policyInterventions.circuitId, id));
+
+      await db.delete(moderationFlags)
+        .where(eq(moderationFlags.circuitId, id));
+
+      await db.delete(crisisAlertNotifications)
+        .where(inArray(
+          crisisAlertNotifications.alertId,
+          db.select({ id: crisisAlerts.id }).from(crisisAlerts).where(eq(crisisAlerts.circuitId, id))
+        ));
+
+      await db.delete(crisisAlerts)
+        .where(eq(crisisAlerts.circuitId, id));
+
+      await db.delete(messageFeedback)
+        .where(eq(messageFeedback.circuitId, id));
+
+      await db.delete(correctedAnswers)
+        .where(eq(correctedAnswers.circuitId, id));
+
+      await db.delete(quizItems)
+        .where(inArray(
+          quizItems.quizId,
+          db.select({ id: practiceQuizzes.id }).from(practiceQuizzes).where(eq(practiceQuizzes.circuitId, id))
+        ));
+
+      await db.delete(practiceQuizzes)
+        .where(eq(practiceQuizzes.circuitId, id));
+
+      await db.delete(messageNotes)
+        .where(inArray(
+          messageNotes.messageId,
+          db.select({ id: messages.id })
+            .from(messages)
+            .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+            .where(eq(conversations.circuitId, id))
+        ));
+
+      await db.delete(messages)
+        .where(inArray(
+          messages.conversationId,
+          db.select({ id: conversations.id }).from(conversations).where(eq(conversations.circuitId, id))
+        ));
+
+      await db.delete(conversations)
+        .where(eq(conversations.circuitId, id));
+
+      await db.delete(circuitMembers)
+        .where(eq(circuitMembers.circuitId, id));
+
+      await db.delete(circuitActivity)
+        .where(eq(circuitActivity.circuitId, id));
+
+      await db.delete(circuitEnrollments)
+        .where(eq(circuitEnrollments.circuitId, id));
+
+      await db.delete(circuitSections)
+        .where(eq(circuitSections.circuitId, id));
+
       // Then delete the circuit itself
       const [circuit] = await db
         .delete(wisdomCircuits)
@@ -222,6 +443,47 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async regenerateCircuitCode(id: number): Promise<WisdomCircuit> {
+    // Replacing the code invalidates the old one, so the join count starts over
+    const [circuit] = await db
+      .update(wisdomCircuits)
+      .set({ code: await this.generateJoinCode(), codeUseCount: 0 })
+      .where(eq(wisdomCircuits.id, id))
+      .returning();
+    return circuit;
+  }
+
+  async updateCircuitCodeSettings(id: number, settings: CircuitCodeSettings): Promise<WisdomCircuit> {
+    const [circuit] = await db
+      .update(wisdomCircuits)
+      .set(settings)
+      .where(eq(wisdomCircuits.id, id))
+      .returning();
+    return circuit;
+  }
+
+  async updateCircuitChatSettings(id: number, settings: CircuitChatSettings): Promise<WisdomCircuit> {
+    const [circuit] = await db
+      .update(wisdomCircuits)
+      .set(settings)
+      .where(eq(wisdomCircuits.id, id))
+      .returning();
+    return circuit;
+  }
+
+  async claimCircuitCodeUse(id: number): Promise<boolean> {
+    // Check the limit and count the use in one statement so simultaneous joins can't overshoot it
+    const claimed = await db
+      .update(wisdomCircuits)
+      .set({ codeUseCount: sql`${wisdomCircuits.codeUseCount} + 1` })
+      .where(and(
+        eq(wisdomCircuits.id, id),
+        or(isNull(wisdomCircuits.codeMaxUses), lt(wisdomCircuits.codeUseCount, wisdomCircuits.codeMaxUses))
+      ))
+      .returning({ id: wisdomCircuits.id });
+    return claimed.length > 0;
+  }
+
   async createCircuitPrompt(prompt: InsertCircuitPrompt): Promise<CircuitPrompt> {
     const [newPrompt] = await db
       .insert(circuitPrompts)
@@ -310,6 +572,1188 @@ export class DatabaseStorage implements IStorage {
     return archivedContent;
   }
 
+  async createCircuitSection(section: InsertCircuitSection): Promise<CircuitSection> {
+    const [newSection] = await db
+      .insert(circuitSections)
+      .values({
+        ...section,
+        code: await this.generateJoinCode(),
+      })
+      .returning();
+    return newSection;
+  }
+
+  async getCircuitSections(circuitId: number): Promise<CircuitSection[]> {
+    return db
+      .select()
+      .from(circuitSections)
+      .where(eq(circuitSections.circuitId, circuitId))
+      .orderBy(circuitSections.createdAt);
+  }
+
+  async getCircuitSection(id: number): Promise<CircuitSection | undefined> {
+    const [section] = await db
+      .select()
+      .from(circuitSections)
+      .where(eq(circuitSections.id, id));
+    return section;
+  }
+
+  async getCircuitSectionByCode(code: string): Promise<CircuitSection | undefined> {
+    const [section] = await db
+      .select()
+      .from(circuitSections)
+      .where(eq(circuitSections.code, code));
+    return section;
+  }
+
+  async deleteCircuitSection(id: number): Promise<CircuitSection> {
+    // Students in the section stay enrolled in the circuit, just without a section
+    await db
+      .update(circuitEnrollments)
+      .set({ sectionId: null })
+      .where(eq(circuitEnrollments.sectionId, id));
+
+    const [section] = await db
+      .delete(circuitSections)
+      .where(eq(circuitSections.id, id))
+      .returning();
+
+    if (!section) {
+      throw new Error('Section not found');
+    }
+
+    return section;
+  }
+
+  async regenerateSectionCode(id: number): Promise<CircuitSection> {
+    const [section] = await db
+      .update(circuitSections)
+      .set({ code: await this.generateJoinCode(), codeUseCount: 0 })
+      .where(eq(circuitSections.id, id))
+      .returning();
+    return section;
+  }
+
+  async updateSectionCodeSettings(id: number, settings: CircuitCodeSettings): Promise<CircuitSection> {
+    const [section] = await db
+      .update(circuitSections)
+      .set(settings)
+      .where(eq(circuitSections.id, id))
+      .returning();
+    return section;
+  }
+
+  async claimSectionCodeUse(id: number): Promise<boolean> {
+    const claimed = await db
+      .update(circuitSections)
+      .set({ codeUseCount: sql`${circuitSections.codeUseCount} + 1` })
+      .where(and(
+        eq(circuitSections.id, id),
+        or(isNull(circuitSections.codeMaxUses), lt(circuitSections.codeUseCount, circuitSections.codeMaxUses))
+      ))
+      .returning({ id: circuitSections.id });
+    return claimed.length > 0;
+  }
+
+  async enrollStudent(circuitId: number, studentId: number, sectionId: number | null = null, status: 'active' | 'pending' = 'active'): Promise<CircuitEnrollment> {
+    // Joining twice with the same code is a no-op, so keep the original enrollment
+    await db
+      .insert(circuitEnrollments)
+      .values({ circuitId, studentId, sectionId, status })
+      .onConflictDoNothing();
+
+    const enrollment = await this.getEnrollment(circuitId, studentId);
+    if (!enrollment) {
+      throw new Error('Failed to enroll student');
+    }
+    return enrollment;
+  }
+
+  async unenrollStudent(circuitId: number, studentId: number): Promise<CircuitEnrollment | undefined> {
+    const [enrollment] = await db
+      .delete(circuitEnrollments)
+      .where(and(
+        eq(circuitEnrollments.circuitId, circuitId),
+        eq(circuitEnrollments.studentId, studentId)
+      ))
+      .returning();
+    return enrollment;
+  }
+
+  async getEnrollment(circuitId: number, studentId: number): Promise<CircuitEnrollment | undefined> {
+    const [enrollment] = await db
+      .select()
+      .from(circuitEnrollments)
+      .where(and(
+        eq(circuitEnrollments.circuitId, circuitId),
+        eq(circuitEnrollments.studentId, studentId)
+      ));
+    return enrollment;
+  }
+
+  async getEnrolledCircuits(studentId: number): Promise<WisdomCircuit[]> {
+    const rows = await db
+      .select({ circuit: wisdomCircuits })
+      .from(circuitEnrollments)
+      .innerJoin(wisdomCircuits, eq(circuitEnrollments.circuitId, wisdomCircuits.id))
+      .where(and(
+        eq(circuitEnrollments.studentId, studentId),
+        eq(circuitEnrollments.status, 'active'),
+        eq(wisdomCircuits.isArchived, false)
+      ))
+      .orderBy(desc(circuitEnrollments.enrolledAt));
+    return rows.map(row => row.circuit);
+  }
+
+  async getCircuitRoster(circuitId: number, sectionId?: number): Promise<RosterEntry[]> {
+    const rows = await db
+      .select({
+        enrollment: circuitEnrollments,
+        student: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+          avatarUrl: users.avatarUrl,
+        },
+      })
+      .from(circuitEnrollments)
+      .innerJoin(users, eq(circuitEnrollments.studentId, users.id))
+      .where(and(
+        eq(circuitEnrollments.circuitId, circuitId),
+        // Pending join requests live in the approval queue, not the roster
+        ne(circuitEnrollments.status, 'pending'),
+        sectionId !== undefined ? eq(circuitEnrollments.sectionId, sectionId) : undefined
+      ))
+      .orderBy(circuitEnrollments.enrolledAt);
+    return rows.map(row => ({ ...row.enrollment, student: row.student }));
+  }
+
+  async setEnrollmentSection(circuitId: number, studentId: number, sectionId: number | null): Promise<CircuitEnrollment | undefined> {
+    const [enrollment] = await db
+      .update(circuitEnrollments)
+      .set({ sectionId })
+      .where(and(
+        eq(circuitEnrollments.circuitId, circuitId),
+        eq(circuitEnrollments.studentId, studentId)
+      ))
+      .returning();
+    return enrollment;
+  }
+
+  async setEnrollmentStatus(
+    circuitId: number,
+    studentId: number,
+    status: 'active' | 'blocked',
+    fromStatus?: CircuitEnrollment['status']
+  ): Promise<CircuitEnrollment | undefined> {
+    // With fromStatus, only an enrollment currently in that status changes
+    const [enrollment] = await db
+      .update(circuitEnrollments)
+      .set({ status })
+      .where(and(
+        eq(circuitEnrollments.circuitId, circuitId),
+        eq(circuitEnrollments.studentId, studentId),
+        fromStatus ? eq(circuitEnrollments.status, fromStatus) : undefined
+      ))
+      .returning();
+    return enrollment;
+  }
+
+  async recordEnrollmentActivity(circuitId: number, studentId: number): Promise<void> {
+    const [enrollment] = await db
+      .update(circuitEnrollments)
+      .set({ lastActiveAt: new Date() })
+      .where(and(
+        eq(circuitEnrollments.circuitId, circuitId),
+        eq(circuitEnrollments.studentId, studentId)
+      ))
+      .returning();
+
+    // Only enrolled students count towards usage figures
+    if (enrollment) {
+      await db.insert(circuitActivity).values({ circuitId, studentId });
+    }
+  }
+
+  async getPendingJoinRequests(userId: number): Promise<JoinRequest[]> {
+    // Owners and co-teachers review requests; TAs cannot
+    const coTaughtCircuitIds = db
+      .select({ id: circuitMembers.circuitId })
+      .from(circuitMembers)
+      .where(and(
+        eq(circuitMembers.userId, userId),
+        eq(circuitMembers.role, 'co-teacher')
+      ));
+
+    const rows = await db
+      .select({
+        enrollment: circuitEnrollments,
+        student: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+          avatarUrl: users.avatarUrl,
+        },
+        circuitName: wisdomCircuits.name,
+      })
+      .from(circuitEnrollments)
+      .innerJoin(users, eq(circuitEnrollments.studentId, users.id))
+      .innerJoin(wisdomCircuits, eq(circuitEnrollments.circuitId, wisdomCircuits.id))
+      .where(and(
+        eq(circuitEnrollments.status, 'pending'),
+        eq(wisdomCircuits.isArchived, false),
+        or(
+          eq(wisdomCircuits.teacherId, userId),
+          inArray(wisdomCircuits.id, coTaughtCircuitIds)
+        )
+      ))
+      .orderBy(circuitEnrollments.enrolledAt);
+    return rows.map(row => ({ ...row.enrollment, student: row.student, circuitName: row.circuitName }));
+  }
+
+  async updateCircuitJoinSettings(id: number, settings: CircuitJoinSettings): Promise<WisdomCircuit> {
+    const [circuit] = await db
+      .update(wisdomCircuits)
+      .set(settings)
+      .where(eq(wisdomCircuits.id, id))
+      .returning();
+
+    if (!circuit) {
+      throw new Error('Circuit not found');
+    }
+
+    return circuit;
+  }
+
+  async addCircuitMember(member: InsertCircuitMember): Promise<CircuitMember> {
+    const [circuitMember] = await db
+      .insert(circuitMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [circuitMembers.circuitId, circuitMembers.userId],
+        set: { role: member.role },
+      })
+      .returning();
+    return circuitMember;
+  }
+
+  async removeCircuitMember(circuitId: number, userId: number): Promise<CircuitMember | undefined> {
+    const [member] = await db
+      .delete(circuitMembers)
+      .where(and(
+        eq(circuitMembers.circuitId, circuitId),
+        eq(circuitMembers.userId, userId)
+      ))
+      .returning();
+    return member;
+  }
+
+  async getCircuitMembers(circuitId: number): Promise<CircuitMemberEntry[]> {
+    const rows = await db
+      .select({
+        member: circuitMembers,
+        user: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+          avatarUrl: users.avatarUrl,
+        },
+      })
+      .from(circuitMembers)
+      .innerJoin(users, eq(circuitMembers.userId, users.id))
+      .where(eq(circuitMembers.circuitId, circuitId))
+      .orderBy(circuitMembers.addedAt);
+    return rows.map(row => ({ ...row.member, user: row.user }));
+  }
+
+  async getCircuitRole(circuitId: number, userId: number): Promise<CircuitRole | undefined> {
+    const circuit = await this.getWisdomCircuit(circuitId);
+    if (!circuit) {
+      return undefined;
+    }
+    if (circuit.teacherId === userId) {
+      return 'owner';
+    }
+
+    const [member] = await db
+      .select()
+      .from(circuitMembers)
+      .where(and(
+        eq(circuitMembers.circuitId, circuitId),
+        eq(circuitMembers.userId, userId)
+      ));
+    return member?.role as CircuitRole | undefined;
+  }
+
+  async createGuardianInvite(studentId: number, invitedBy: number): Promise<GuardianLink> {
+    const [link] = await db
+      .insert(guardianLinks)
+      .values({
+        studentId,
+        invitedBy,
+        inviteCode: nanoid(10).toUpperCase(),
+      })
+      .returning();
+    return link;
+  }
+
+  async getGuardianLinkByCode(code: string): Promise<GuardianLink | undefined> {
+    const [link] = await db
+      .select()
+      .from(guardianLinks)
+      .where(eq(guardianLinks.inviteCode, code));
+    return link;
+  }
+
+  async getGuardianLink(id: number): Promise<GuardianLink | undefined> {
+    const [link] = await db
+      .select()
+      .from(guardianLinks)
+      .where(eq(guardianLinks.id, id));
+    return link;
+  }
+
+  async acceptGuardianInvite(id: number, guardianId: number): Promise<GuardianLink | undefined> {
+    // Only a pending invite can be accepted; a second accept matches no row
+    const [link] = await db
+      .update(guardianLinks)
+      .set({ guardianId, status: 'active', acceptedAt: new Date() })
+      .where(and(eq(guardianLinks.id, id), eq(guardianLinks.status, 'pending')))
+      .returning();
+    return link;
+  }
+
+  async deleteGuardianLink(id: number): Promise<GuardianLink | undefined> {
+    const [link] = await db
+      .delete(guardianLinks)
+      .where(eq(guardianLinks.id, id))
+      .returning();
+    return link;
+  }
+
+  async getStudentGuardianLinks(studentId: number): Promise<GuardianLinkEntry[]> {
+    const rows = await db
+      .select({
+        link: guardianLinks,
+        guardian: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+        },
+      })
+      .from(guardianLinks)
+      .leftJoin(users, eq(guardianLinks.guardianId, users.id))
+      .where(eq(guardianLinks.studentId, studentId))
+      .orderBy(guardianLinks.createdAt);
+    return rows.map(row => ({ ...row.link, guardian: row.guardian }));
+  }
+
+  async getGuardianStudents(guardianId: number): Promise<User[]> {
+    const rows = await db
+      .select({ student: users })
+      .from(guardianLinks)
+      .innerJoin(users, eq(guardianLinks.studentId, users.id))
+      .where(and(
+        eq(guardianLinks.guardianId, guardianId),
+        eq(guardianLinks.status, 'active')
+      ));
+    return rows.map(row => row.student);
+  }
+
+  async updateGuardianVisibility(circuitId: number, visibility: GuardianVisibility): Promise<WisdomCircuit> {
+    const [circuit] = await db
+      .update(wisdomCircuits)
+      .set(visibility)
+      .where(eq(wisdomCircuits.id, circuitId))
+      .returning();
+
+    if (!circuit) {
+      throw new Error('Circuit not found');
+    }
+
+    return circuit;
+  }
+
+  async getWeeklyMessageCount(circuitId: number, studentId: number): Promise<number> {
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const [result] = await db
+      .select({ value: count() })
+      .from(circuitActivity)
+      .where(and(
+        eq(circuitActivity.circuitId, circuitId),
+        eq(circuitActivity.studentId, studentId),
+        gte(circuitActivity.occurredAt, weekAgo)
+      ));
+    return result?.value ?? 0;
+  }
+
+  async createConversation(circuitId: number, studentId: number, title: string): Promise<Conversation> {
+    const [conversation] = await db
+      .insert(conversations)
+      .values({ circuitId, studentId, title })
+      .returning();
+    return conversation;
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async getConversationSummaries(circuitId: number, studentId: number, limit = 50): Promise<ConversationSummary[]> {
+    return await db
+      .select({
+        id: conversations.id,
+        title: conversations.title,
+        createdAt: conversations.createdAt,
+        updatedAt: conversations.updatedAt,
+        messageCount: count(messages.id),
+      })
+      .from(conversations)
+      .leftJoin(messages, eq(messages.conversationId, conversations.id))
+      .where(and(
+        eq(conversations.circuitId, circuitId),
+        eq(conversations.studentId, studentId)
+      ))
+      .groupBy(conversations.id)
+      .orderBy(desc(conversations.updatedAt))
+      .limit(limit);
+  }
+
+  async getConversationMessages(conversationId: number, afterId?: number): Promise<Message[]> {
+    return await db
+      .select()
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        afterId !== undefined ? gt(messages.id, afterId) : undefined
+      ))
+      .orderBy(messages.createdAt, messages.id);
+  }
+
+  async addMessage(message: InsertMessage): Promise<Message> {
+    const [saved] = await db
+      .insert(messages)
+      .values(message)
+      .returning();
+
+    // Keep the most recently used conversation at the top of the history
+    await db
+      .update(conversations)
+      .set({ updatedAt: saved.createdAt })
+      .where(eq(conversations.id, message.conversationId));
+
+    return saved;
+  }
+
+  async updateConversationSummary(id: number, summary: string, summarizedThroughId: number): Promise<Conversation> {
+    const [conversation] = await db
+      .update(conversations)
+      .set({ summary, summarizedThroughId })
+      .where(eq(conversations.id, id))
+      .returning();
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  async setConversationTakeover(id: number, teacherId: number | null): Promise<Conversation | undefined> {
+    // Taking over only succeeds while no other teacher is in the chat, so two
+    // teachers joining at once can't both win
+    const [conversation] = await db
+      .update(conversations)
+      .set({ takenOverBy: teacherId })
+      .where(teacherId === null
+        ? eq(conversations.id, id)
+        : and(eq(conversations.id, id), isNull(conversations.takenOverBy)))
+      .returning();
+    return conversation;
+  }
+
+  async getCircuitTranscripts(circuitId: number, query: TranscriptQuery): Promise<TranscriptPage> {
+    // Keywords match the title or any message; escape LIKE wildcards typed by the teacher
+    const keyword = query.q ? `%${query.q.replace(/[\\%_]/g, '\\$&')}%` : undefined;
+
+    const conditions = and(
+      eq(conversations.circuitId, circuitId),
+      query.studentId !== undefined ? eq(conversations.studentId, query.studentId) : undefined,
+      // Conversations active at any point in the range
+      query.from ? gte(conversations.updatedAt, query.from) : undefined,
+      query.to ? lte(conversations.createdAt, query.to) : undefined,
+      keyword ? or(
+        ilike(conversations.title, keyword),
+        exists(
+          db.select({ id: messages.id })
+            .from(messages)
+            .where(and(
+              eq(messages.conversationId, conversations.id),
+              ilike(messages.content, keyword)
+            ))
+        )
+      ) : undefined
+    );
+
+    const [totals] = await db
+      .select({ total: count() })
+      .from(conversations)
+      .where(conditions);
+
+    const rows = await db
+      .select({
+        id: conversations.id,
+        title: conversations.title,
+        createdAt: conversations.createdAt,
+        updatedAt: conversations.updatedAt,
+        takenOverBy: conversations.takenOverBy,
+        messageCount: count(messages.id),
+        student: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+        },
+      })
+      .from(conversations)
+      .innerJoin(users, eq(conversations.studentId, users.id))
+      .leftJoin(messages, eq(messages.conversationId, conversations.id))
+      .where(conditions)
+      .groupBy(conversations.id, users.id)
+      .orderBy(desc(conversations.updatedAt), desc(conversations.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return {
+      conversations: rows,
+      total: totals?.total ?? 0,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, id));
+    return message;
+  }
+
+  async getMessageNotes(conversationId: number): Promise<MessageNoteEntry[]> {
+    const rows = await db
+      .select({
+        note: messageNotes,
+        author: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+        },
+      })
+      .from(messageNotes)
+      .innerJoin(messages, eq(messageNotes.messageId, messages.id))
+      .innerJoin(users, eq(messageNotes.authorId, users.id))
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(messageNotes.createdAt);
+    return rows.map(row => ({ ...row.note, author: row.author }));
+  }
+
+  async createMessageNote(messageId: number, authorId: number, content: string): Promise<MessageNote> {
+    const [note] = await db
+      .insert(messageNotes)
+      .values({ messageId, authorId, content })
+      .returning();
+    return note;
+  }
+
+  async getMessageNote(id: number): Promise<MessageNote | undefined> {
+    const [note] = await db
+      .select()
+      .from(messageNotes)
+      .where(eq(messageNotes.id, id));
+    return note;
+  }
+
+  async deleteMessageNote(id: number): Promise<MessageNote> {
+    const [note] = await db
+      .delete(messageNotes)
+      .where(eq(messageNotes.id, id))
+      .returning();
+    return note;
+  }
+
+  async createPolicyIntervention(intervention: InsertPolicyIntervention): Promise<PolicyIntervention> {
+    const [saved] = await db
+      .insert(policyInterventions)
+      .values(intervention)
+      .returning();
+    return saved;
+  }
+
+  async getPolicyInterventionReport(circuitId: number, limit = 50): Promise<PolicyInterventionReport> {
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const [totals] = await db
+      .select({
+        total: count(),
+        thisWeek: sql<number>`count(*) filter (where ${policyInterventions.createdAt} >= ${weekAgo})`.mapWith(Number),
+      })
+      .from(policyInterventions)
+      .where(eq(policyInterventions.circuitId, circuitId));
+
+    const rows = await db
+      .select({
+        intervention: policyInterventions,
+        student: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+        },
+      })
+      .from(policyInterventions)
+      .innerJoin(users, eq(policyInterventions.studentId, users.id))
+      .where(eq(policyInterventions.circuitId, circuitId))
+      .orderBy(desc(policyInterventions.createdAt))
+      .limit(limit);
+
+    return {
+      total: totals?.total ?? 0,
+      thisWeek: totals?.thisWeek ?? 0,
+      interventions: rows.map(row => ({ ...row.intervention, student: row.student })),
+    };
+  }
+
+  async createModerationFlag(flag: InsertModerationFlag): Promise<ModerationFlag> {
+    const [saved] = await db
+      .insert(moderationFlags)
+      .values(flag)
+      .returning();
+    return saved;
+  }
+
+  async getModerationFlag(id: number): Promise<ModerationFlag | undefined> {
+    const [flag] = await db
+      .select()
+      .from(moderationFlags)
+      .where(eq(moderationFlags.id, id));
+    return flag;
+  }
+
+  async getModerationFlags(circuitId: number, reviewed: boolean): Promise<ModerationFlagEntry[]> {
+    const rows = await db
+      .select({
+        flag: moderationFlags,
+        student: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+        },
+      })
+      .from(moderationFlags)
+      .innerJoin(users, eq(moderationFlags.studentId, users.id))
+      .where(and(
+        eq(moderationFlags.circuitId, circuitId),
+        reviewed ? isNotNull(moderationFlags.reviewedAt) : isNull(moderationFlags.reviewedAt)
+      ))
+      .orderBy(desc(moderationFlags.createdAt))
+      .limit(100);
+    return rows.map(row => ({ ...row.flag, student: row.student }));
+  }
+
+  async reviewModerationFlag(id: number, reviewerId: number): Promise<ModerationFlag> {
+    const [flag] = await db
+      .update(moderationFlags)
+      .set({ reviewedAt: new Date(), reviewedBy: reviewerId })
+      .where(eq(moderationFlags.id, id))
+      .returning();
+
+    if (!flag) {
+      throw new Error('Moderation flag not found');
+    }
+
+    return flag;
+  }
+
+  async createCrisisAlert(
+    alert: InsertCrisisAlert,
+    recipients: Pick<CrisisAlertNotification, "recipientId" | "recipientRole">[]
+  ): Promise<CrisisAlert> {
+    const [saved] = await db
+      .insert(crisisAlerts)
+      .values(alert)
+      .returning();
+
+    if (recipients.length > 0) {
+      await db
+        .insert(crisisAlertNotifications)
+        .values(recipients.map(recipient => ({ ...recipient, alertId: saved.id })))
+        .onConflictDoNothing();
+    }
+
+    return saved;
+  }
+
+  async getCrisisAlerts(recipientId: number, acknowledged: boolean): Promise<CrisisAlertEntry[]> {
+    const rows = await db
+      .select({
+        alert: crisisAlerts,
+        acknowledgedAt: crisisAlertNotifications.acknowledgedAt,
+        circuitName: wisdomCircuits.name,
+        student: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+        },
+      })
+      .from(crisisAlertNotifications)
+      .innerJoin(crisisAlerts, eq(crisisAlertNotifications.alertId, crisisAlerts.id))
+      .innerJoin(wisdomCircuits, eq(crisisAlerts.circuitId, wisdomCircuits.id))
+      .innerJoin(users, eq(crisisAlerts.studentId, users.id))
+      .where(and(
+        eq(crisisAlertNotifications.recipientId, recipientId),
+        acknowledged ? isNotNull(crisisAlertNotifications.acknowledgedAt) : isNull(crisisAlertNotifications.acknowledgedAt)
+      ))
+      .orderBy(desc(crisisAlerts.createdAt))
+      .limit(100);
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    // Everyone who was notified about these alerts, for the audit trail
+    const notifications = await db
+      .select({
+        notification: crisisAlertNotifications,
+        recipient: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+        },
+      })
+      .from(crisisAlertNotifications)
+      .innerJoin(users, eq(crisisAlertNotifications.recipientId, users.id))
+      .where(inArray(crisisAlertNotifications.alertId, rows.map(row => row.alert.id)))
+      .orderBy(crisisAlertNotifications.notifiedAt);
+
+    return rows.map(row => ({
+      ...row.alert,
+      student: row.student,
+      circuitName: row.circuitName,
+      acknowledgedAt: row.acknowledgedAt,
+      notifications: notifications
+        .filter(entry => entry.notification.alertId === row.alert.id)
+        .map(entry => ({ ...entry.notification, recipient: entry.recipient })),
+    }));
+  }
+
+  async acknowledgeCrisisAlert(alertId: number, recipientId: number): Promise<CrisisAlertNotification | undefined> {
+    const [notification] = await db
+      .update(crisisAlertNotifications)
+      .set({ acknowledgedAt: new Date() })
+      .where(and(
+        eq(crisisAlertNotifications.alertId, alertId),
+        eq(crisisAlertNotifications.recipientId, recipientId),
+        isNull(crisisAlertNotifications.acknowledgedAt)
+      ))
+      .returning();
+    return notification;
+  }
+
+  async saveMessageFeedback(
+    messageId: number,
+    circuitId: number,
+    studentId: number,
+    feedback: MessageFeedbackInput
+  ): Promise<MessageFeedback> {
+    // Any change puts the reply back in front of the teacher
+    const [saved] = await db
+      .insert(messageFeedback)
+      .values({ messageId, circuitId, studentId, ...feedback })
+      .onConflictDoUpdate({
+        target: [messageFeedback.messageId, messageFeedback.studentId],
+        set: { ...feedback, resolvedAt: null, resolvedBy: null, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getMessageFeedback(id: number): Promise<MessageFeedback | undefined> {
+    const [feedback] = await db
+      .select()
+      .from(messageFeedback)
+      .where(eq(messageFeedback.id, id));
+    return feedback;
+  }
+
+  async getConversationFeedback(conversationId: number, studentId: number): Promise<MessageFeedback[]> {
+    const rows = await db
+      .select({ feedback: messageFeedback })
+      .from(messageFeedback)
+      .innerJoin(messages, eq(messageFeedback.messageId, messages.id))
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messageFeedback.studentId, studentId)
+      ));
+    return rows.map(row => row.feedback);
+  }
+
+  async getFeedbackQueue(circuitId: number, resolved: boolean): Promise<MessageFeedbackEntry[]> {
+    const rows = await db
+      .select({
+        feedback: messageFeedback,
+        answer: messages.content,
+        // The student message the reply was answering
+        question: sql<string | null>`(
+          select q.content from messages q
+          where q.conversation_id = ${messages.conversationId} and q.role = 'user' and q.id < ${messages.id}
+          order by q.id desc limit 1
+        )`,
+        correction: {
+          id: correctedAnswers.id,
+          answer: correctedAnswers.answer,
+          createdAt: correctedAnswers.createdAt,
+        },
+        student: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+        },
+      })
+      .from(messageFeedback)
+      .innerJoin(messages, eq(messageFeedback.messageId, messages.id))
+      .innerJoin(users, eq(messageFeedback.studentId, users.id))
+      .leftJoin(correctedAnswers, eq(correctedAnswers.messageId, messageFeedback.messageId))
+      .where(and(
+        eq(messageFeedback.circuitId, circuitId),
+        or(eq(messageFeedback.rating, 'down'), eq(messageFeedback.reported, true)),
+        resolved ? isNotNull(messageFeedback.resolvedAt) : isNull(messageFeedback.resolvedAt)
+      ))
+      .orderBy(desc(messageFeedback.updatedAt))
+      .limit(100);
+
+    return rows.map(row => ({
+      ...row.feedback,
+      student: row.student,
+      question: row.question,
+      answer: row.answer,
+      correction: row.correction?.id ? row.correction : null,
+    }));
+  }
+
+  async resolveMessageFeedback(id: number, teacherId: number): Promise<MessageFeedback> {
+    const [feedback] = await db
+      .update(messageFeedback)
+      .set({ resolvedAt: new Date(), resolvedBy: teacherId })
+      .where(eq(messageFeedback.id, id))
+      .returning();
+
+    if (!feedback) {
+      throw new Error('Feedback not found');
+    }
+
+    return feedback;
+  }
+
+  async getPrecedingStudentMessage(conversationId: number, beforeId: number): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.role, 'user'),
+        eq(messages.withheldFromModel, false),
+        lt(messages.id, beforeId)
+      ))
+      .orderBy(desc(messages.id))
+      .limit(1);
+    return message;
+  }
+
+  async saveCorrectedAnswer(correction: Omit<CorrectedAnswer, "id" | "createdAt">): Promise<CorrectedAnswer> {
+    // One correction per reply; correcting it again replaces the answer
+    const [saved] = await db
+      .insert(correctedAnswers)
+      .values(correction)
+      .onConflictDoUpdate({
+        target: correctedAnswers.messageId,
+        set: { answer: correction.answer, authorId: correction.authorId },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getCorrectedAnswers(circuitId: number): Promise<CorrectedAnswer[]> {
+    return await db
+      .select()
+      .from(correctedAnswers)
+      .where(eq(correctedAnswers.circuitId, circuitId))
+      .orderBy(desc(correctedAnswers.createdAt));
+  }
+
+  async createPracticeQuiz(
+    quiz: Pick<PracticeQuiz, "circuitId" | "studentId" | "topic">,
+    items: Omit<QuizItem, "id" | "quizId" | "studentAnswer" | "isCorrect" | "feedback" | "answeredAt">[]
+  ): Promise<PracticeQuizWithItems> {
+    const [created] = await db
+      .insert(practiceQuizzes)
+      .values(quiz)
+      .returning();
+
+    const savedItems = await db
+      .insert(quizItems)
+      .values(items.map(item => ({ ...item, quizId: created.id })))
+      .returning();
+
+    return { ...created, items: savedItems.sort((a, b) => a.position - b.position) };
+  }
+
+  async getPracticeQuiz(id: number): Promise<PracticeQuizWithItems | undefined> {
+    const [quiz] = await db
+      .select()
+      .from(practiceQuizzes)
+      .where(eq(practiceQuizzes.id, id));
+
+    if (!quiz) return undefined;
+
+    const items = await db
+      .select()
+      .from(quizItems)
+      .where(eq(quizItems.quizId, id))
+      .orderBy(quizItems.position);
+
+    return { ...quiz, items };
+  }
+
+  async getQuizItem(id: number): Promise<QuizItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(quizItems)
+      .where(eq(quizItems.id, id));
+    return item;
+  }
+
+  async answerQuizItem(id: number, result: Pick<QuizItem, "studentAnswer" | "isCorrect" | "feedback">): Promise<QuizItem | undefined> {
+    // Each item takes one answer; a second submission matches no row
+    const [item] = await db
+      .update(quizItems)
+      .set({ ...result, answeredAt: new Date() })
+      .where(and(eq(quizItems.id, id), isNull(quizItems.answeredAt)))
+      .returning();
+    return item;
+  }
+
+  async completePracticeQuiz(id: number): Promise<PracticeQuiz> {
+    const [quiz] = await db
+      .update(practiceQuizzes)
+      .set({ completedAt: new Date() })
+      .where(eq(practiceQuizzes.id, id))
+      .returning();
+
+    if (!quiz) {
+      throw new Error('Quiz not found');
+    }
+
+    return quiz;
+  }
+
+  async getQuizResults(circuitId: number): Promise<QuizResultEntry[]> {
+    const rows = await db
+      .select({
+        quiz: practiceQuizzes,
+        student: {
+          id: users.id,
+          email: users.email,
+          displayName: users.displayName,
+        },
+      })
+      .from(practiceQuizzes)
+      .innerJoin(users, eq(practiceQuizzes.studentId, users.id))
+      .where(eq(practiceQuizzes.circuitId, circuitId))
+      .orderBy(desc(practiceQuizzes.createdAt))
+      .limit(100);
+
+    if (rows.length === 0) return [];
+
+    const items = await db
+      .select()
+      .from(quizItems)
+      .where(inArray(quizItems.quizId, rows.map(row => row.quiz.id)))
+      .orderBy(quizItems.position);
+
+    return rows.map(row => ({
+      ...row.quiz,
+      student: row.student,
+      items: items.filter(item => item.quizId === row.quiz.id),
+    }));
+  }
+
+  async createFlashcardDeck(
+    deck: Pick<FlashcardDeck, "circuitId" | "title" | "contentId" | "createdBy">,
+    cards: FlashcardInput[]
+  ): Promise<FlashcardDeckWithCards> {
+    const [created] = await db
+      .insert(flashcardDecks)
+      .values(deck)
+      .returning();
+
+    const savedCards = cards.length > 0
+      ? await db
+        .insert(flashcards)
+        .values(cards.map(card => ({ ...card, deckId: created.id })))
+        .returning()
+      : [];
+
+    return { ...created, cards: savedCards };
+  }
+
+  async getFlashcardDeck(id: number): Promise<FlashcardDeck | undefined> {
+    const [deck] = await db
+      .select()
+      .from(flashcardDecks)
+      .where(eq(flashcardDecks.id, id));
+    return deck;
+  }
+
+  async getFlashcardDecks(circuitId: number): Promise<FlashcardDeckWithCards[]> {
+    const decks = await db
+      .select()
+      .from(flashcardDecks)
+      .where(eq(flashcardDecks.circuitId, circuitId))
+      .orderBy(desc(flashcardDecks.createdAt));
+
+    if (decks.length === 0) return [];
+
+    const cards = await db
+      .select()
+      .from(flashcards)
+      .where(inArray(flashcards.deckId, decks.map(deck => deck.id)))
+      .orderBy(flashcards.id);
+
+    return decks.map(deck => ({
+      ...deck,
+      cards: cards.filter(card => card.deckId === deck.id),
+    }));
+  }
+
+  async deleteFlashcardDeck(id: number): Promise<void> {
+    const cards = db.select({ id: flashcards.id }).from(flashcards).where(eq(flashcards.deckId, id));
+
+    await db.delete(flashcardReviews)
+      .where(inArray(flashcardReviews.cardId, cards));
+
+    await db.delete(flashcards)
+      .where(eq(flashcards.deckId, id));
+
+    await db.delete(flashcardDecks)
+      .where(eq(flashcardDecks.id, id));
+  }
+
+  async addFlashcard(deckId: number, card: FlashcardInput): Promise<Flashcard> {
+    const [created] = await db
+      .insert(flashcards)
+      .values({ ...card, deckId })
+      .returning();
+    return created;
+  }
+
+  async getFlashcard(id: number): Promise<Flashcard | undefined> {
+    const [card] = await db
+      .select()
+      .from(flashcards)
+      .where(eq(flashcards.id, id));
+    return card;
+  }
+
+  async deleteFlashcard(id: number): Promise<void> {
+    await db.delete(flashcardReviews)
+      .where(eq(flashcardReviews.cardId, id));
+
+    await db.delete(flashcards)
+      .where(eq(flashcards.id, id));
+  }
+
+  async getDueFlashcards(circuitId: number, studentId: number, limit: number): Promise<DueFlashcard[]> {
+    // Overdue cards first, then ones the student has never seen
+    const rows = await db
+      .select({
+        card: flashcards,
+        deckTitle: flashcardDecks.title,
+        review: flashcardReviews,
+      })
+      .from(flashcards)
+      .innerJoin(flashcardDecks, eq(flashcards.deckId, flashcardDecks.id))
+      .leftJoin(flashcardReviews, and(
+        eq(flashcardReviews.cardId, flashcards.id),
+        eq(flashcardReviews.studentId, studentId)
+      ))
+      .where(and(
+        eq(flashcardDecks.circuitId, circuitId),
+        or(isNull(flashcardReviews.id), lte(flashcardReviews.dueAt, new Date()))
+      ))
+      .orderBy(sql`${flashcardReviews.dueAt} asc nulls last`, flashcards.id)
+      .limit(limit);
+
+    return rows.map(row => ({
+      ...row.card,
+      deckTitle: row.deckTitle,
+      review: row.review,
+    }));
+  }
+
+  async getFlashcardDueCounts(studentId: number): Promise<FlashcardDueCount[]> {
+    return await db
+      .select({
+        circuitId: flashcardDecks.circuitId,
+        due: count(),
+      })
+      .from(flashcards)
+      .innerJoin(flashcardDecks, eq(flashcards.deckId, flashcardDecks.id))
+      .innerJoin(circuitEnrollments, and(
+        eq(circuitEnrollments.circuitId, flashcardDecks.circuitId),
+        eq(circuitEnrollments.studentId, studentId),
+        eq(circuitEnrollments.status, 'active')
+      ))
+      .leftJoin(flashcardReviews, and(
+        eq(flashcardReviews.cardId, flashcards.id),
+        eq(flashcardReviews.studentId, studentId)
+      ))
+      .where(or(isNull(flashcardReviews.id), lte(flashcardReviews.dueAt, new Date())))
+      .groupBy(flashcardDecks.circuitId);
+  }
+
+  async getFlashcardReview(cardId: number, studentId: number): Promise<FlashcardReview | undefined> {
+    const [review] = await db
+      .select()
+      .from(flashcardReviews)
+      .where(and(
+        eq(flashcardReviews.cardId, cardId),
+        eq(flashcardReviews.studentId, studentId)
+      ));
+    return review;
+  }
+
+  async saveFlashcardReview(review: Omit<FlashcardReview, "id" | "lastReviewedAt">): Promise<FlashcardReview> {
+    const schedule = {
+      easeFactor: review.easeFactor,
+      intervalDays: review.intervalDays,
+      repetitions: review.repetitions,
+      dueAt: review.dueAt,
+      lastReviewedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(flashcardReviews)
+      .values({ ...review, lastReviewedAt: schedule.lastReviewedAt })
+      .onConflictDoUpdate({
+        target: [flashcardReviews.cardId, flashcardReviews.studentId],
+        set: schedule,
+      })
+      .returning();
+    return saved;
+  }
+
   async createOrganization(org: InsertOrganization): Promise<Organization> {
     const [organization] = await db
       .insert(organizations)
@@ -346,6 +1790,20 @@ export class DatabaseStorage implements IStorage {
     return org;
   }
 
+  async updateOrganizationCounselor(id: number, counselorId: number | null): Promise<Organization> {
+    const [org] = await db
+      .update(organizations)
+      .set({ counselorId })
+      .where(eq(organizations.id, id))
+      .returning();
+
+    if (!org) {
+      throw new Error('Organization not found');
+    }
+
+    return org;
+  }
+
   async createSubscriptionPlan(plan: InsertSubscriptionPlan): Promise<SubscriptionPlan> {
     const [newPlan] = await db
       .insert(subscriptionPlans)
@@ -0,0 +1,63 @@
+import multer from "multer";
+import path from "path";
+import fs from "fs";
+import { promisify } from "util";
+
+const readFile = promisify(fs.readFile);
+
+// Photos students attach in chat. They are kept out of uploads/, which is
+// served publicly, and are only sent through the access-checked attachment route.
+export const ATTACHMENTS_DIR = 'attachments';
+
+// Image formats the vision model accepts
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Ensure the upload directories exist
+for (const dir of ['uploads', ATTACHMENTS_DIR]) {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir);
+  }
+}
+
+function diskStorage(destination: string) {
+  return multer.diskStorage({
+    destination,
+    filename: (req, file, cb) => {
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+      cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
+    }
+  });
+}
+
+// Configure multer for file uploads
+export const upload = multer({
+  storage: diskStorage('uploads/'),
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  }
+});
+
+export const imageUpload = multer({
+  storage: diskStorage(`${ATTACHMENTS_DIR}/`),
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (!IMAGE_TYPES.includes(file.mimetype)) {
+      return cb(new Error("Only JPEG, PNG, GIF and WebP images can be attached"));
+    }
+    cb(null, true);
+  }
+});
+
+// The browser's MIME type is only a claim, so check the file's leading bytes.
+// Returns the real image type, or null when the file is not a supported image.
+export async function detectImageType(filePath: string): Promise<string | null> {
+  const header = (await readFile(filePath)).subarray(0, 12);
+
+  if (header[0] === 0xFF && header[1] === 0xD8 && header[2] === 0xFF) return 'image/jpeg';
+  if (header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]))) return 'image/png';
+  if (header.toString('ascii', 0, 4) === 'GIF8') return 'image/gif';
+  if (header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  return null;
+}
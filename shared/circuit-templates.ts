@@ -174,4 +174,52 @@ export const DEFAULT_TEACHING_PROMPTS = {
       ]
     }
   }
-};
\ No newline at end of file
+};
+// K counts as grade 0; anything unrecognised is treated as high school
+export function getGradeNumber(grade: string): number {
+  const gradeNumber = grade === "K" ? 0 : parseInt(grade);
+  return isNaN(gradeNumber) ? 12 : gradeNumber;
+}
+
+// The teaching template whose prompts suit students of a grade
+export function getGradeTemplate(grade: string): TeachingTemplate {
+  const gradeNumber = getGradeNumber(grade);
+  if (gradeNumber <= 5) return "guidedPractice";
+  if (gradeNumber <= 8) return "skillMastery";
+  return "conceptualUnderstanding";
+}
+
+export interface ChatGreetingDefaults {
+  welcomeMessage: string;
+  nudgeMessage: string;
+  nudgeIntervalMinutes: number;
+}
+
+// Younger students get simpler wording, a hands-on follow-up question and a
+// shorter wait before the tutor checks in. {name} is the student's name.
+export function getDefaultChatGreeting(grade: string): ChatGreetingDefaults {
+  const gradeNumber = getGradeNumber(grade);
+  const followUp = DEFAULT_TEACHING_PROMPTS[getGradeTemplate(grade)].configuration.defaultPrompts[0];
+
+  if (gradeNumber <= 5) {
+    return {
+      welcomeMessage: "Hi {name}! I'm here to help you learn. What would you like to work on today?",
+      nudgeMessage: `{name}, are you still there? ${followUp}`,
+      nudgeIntervalMinutes: 2,
+    };
+  }
+
+  if (gradeNumber <= 8) {
+    return {
+      welcomeMessage: "Hello {name}! I'm here to help you with today's lesson, homework, or reviewing any material in the class. What can I help you with today?",
+      nudgeMessage: `{name}... just making sure you're still with me. ${followUp}.`,
+      nudgeIntervalMinutes: 3,
+    };
+  }
+
+  return {
+    welcomeMessage: "Hi {name}. I can help with the lesson, homework, or reviewing for this class. What are you working on?",
+    nudgeMessage: `Still with me, {name}? ${followUp}`,
+    nudgeIntervalMinutes: 5,
+  };
+}
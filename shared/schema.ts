@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, decimal, real, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +8,7 @@ export const users = pgTable("users", {
   password: text("password"),  // Make password optional for OAuth users
   isTeacher: boolean("is_teacher").notNull().default(false),
   isAdmin: boolean("is_admin").notNull().default(false),
+  isGuardian: boolean("is_guardian").notNull().default(false),
   authProvider: text("auth_provider").notNull().default('local'), // 'local', 'google', 'canvas', 'clever'
   providerId: text("provider_id"), // ID from the OAuth provider
   displayName: text("display_name"),
@@ -22,6 +23,7 @@ export const organizations = pgTable("organizations", {
   type: text("type").notNull(), // 'school' or 'district'
   accessCode: text("access_code").notNull().unique(),
   status: text("status").notNull().default('active'),
+  counselorId: integer("counselor_id").references((): AnyPgColumn => users.id), // receives crisis alerts
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -74,6 +76,9 @@ export const payments = pgTable("payments", {
 export const wisdomCircuits = pgTable("wisdom_circuits", {
   id: serial("id").primaryKey(),
   code: text("code").notNull().unique(),
+  codeExpiresAt: timestamp("code_expires_at"), // null means the code never expires
+  codeMaxUses: integer("code_max_uses"), // null means unlimited joins
+  codeUseCount: integer("code_use_count").notNull().default(0),
   name: text("name").notNull(),
   grade: text("grade").notNull(),
   teacherId: integer("teacher_id").notNull().references(() => users.id),
@@ -86,6 +91,17 @@ export const wisdomCircuits = pgTable("wisdom_circuits", {
   responseTypes: jsonb("response_types").notNull().default(['detailed']),
   stateAlignment: text("state_alignment").notNull().default('California'),
   isArchived: boolean("is_archived").notNull().default(false),
+  requireApproval: boolean("require_approval").notNull().default(false), // joining by code creates a pending request
+  // What linked parents and guardians may see of this circuit
+  guardianShowCircuit: boolean("guardian_show_circuit").notNull().default(true),
+  guardianShowUsage: boolean("guardian_show_usage").notNull().default(true),
+  guardianShowSummaries: boolean("guardian_show_summaries").notNull().default(false),
+  // How the tutor opens a chat and checks in on a quiet student; null uses the grade's default
+  welcomeMessage: text("welcome_message"),
+  nudgesEnabled: boolean("nudges_enabled").notNull().default(true),
+  nudgeIntervalMinutes: integer("nudge_interval_minutes"),
+  nudgeMessage: text("nudge_message"),
+  pinnedSuggestions: jsonb("pinned_suggestions").notNull().default([]), // shown first among the chat suggestions
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -112,6 +128,241 @@ export const circuitContent = pgTable("circuit_content", {
   isArchived: boolean("is_archived").notNull().default(false),
 });
 
+export const circuitSections = pgTable("circuit_sections", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  name: text("name").notNull(), // e.g. 'Period 1'
+  code: text("code").notNull().unique(),
+  codeExpiresAt: timestamp("code_expires_at"),
+  codeMaxUses: integer("code_max_uses"),
+  codeUseCount: integer("code_use_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const circuitEnrollments = pgTable("circuit_enrollments", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  sectionId: integer("section_id").references(() => circuitSections.id), // null when joined with the circuit's own code
+  studentId: integer("student_id").notNull().references(() => users.id),
+  status: text("status").notNull().default('active'), // 'active', 'pending' (awaiting approval) or 'blocked'
+  enrolledAt: timestamp("enrolled_at").notNull().defaultNow(),
+  lastActiveAt: timestamp("last_active_at"),
+}, (table) => [
+  unique("circuit_enrollments_circuit_student_unique").on(table.circuitId, table.studentId),
+]);
+
+// Additional adults on a circuit; the circuit's teacherId is always its owner
+export const circuitMembers = pgTable("circuit_members", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  role: text("role").notNull(), // 'co-teacher' or 'ta'
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+}, (table) => [
+  unique("circuit_members_circuit_user_unique").on(table.circuitId, table.userId),
+]);
+
+// One row per chat message a student sends, used for weekly usage figures
+export const circuitActivity = pgTable("circuit_activity", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  studentId: integer("student_id").notNull().references(() => users.id),
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+});
+
+export const guardianLinks = pgTable("guardian_links", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull().references(() => users.id),
+  guardianId: integer("guardian_id").references(() => users.id), // null until the invite is accepted
+  inviteCode: text("invite_code").notNull().unique(),
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  status: text("status").notNull().default('pending'), // 'pending' or 'active'
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  acceptedAt: timestamp("accepted_at"),
+});
+
+// A student's chat session with a circuit's tutor
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  studentId: integer("student_id").notNull().references(() => users.id),
+  title: text("title").notNull(), // taken from the student's first message
+  summary: text("summary"), // rolling summary of turns too old to send with each message
+  summarizedThroughId: integer("summarized_through_id"), // last message folded into the summary
+  takenOverBy: integer("taken_over_by").references(() => users.id), // teacher chatting live; the tutor is paused while set
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const messages = pgTable("messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id),
+  role: text("role").notNull(), // 'user', 'assistant', 'teacher', or 'event' for a teacher joining or leaving
+  content: text("content").notNull(),
+  authorId: integer("author_id").references(() => users.id), // the teacher behind 'teacher' and 'event' messages
+  authorName: text("author_name"), // shown to the student, like a circuit's teacherName
+  // A photo the student attached, stored outside the public uploads folder
+  attachmentPath: text("attachment_path"),
+  attachmentType: text("attachment_type"),
+  citations: jsonb("citations"), // Citation[] of the circuit content a tutor reply drew on
+  // Blocked and crisis messages, and the scripted replies to them, stay out of
+  // the history and summary sent to the model
+  withheldFromModel: boolean("withheld_from_model").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Notes teachers leave on messages while reviewing transcripts; never shown to students
+export const messageNotes = pgTable("message_notes", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id),
+  authorId: integer("author_id").notNull().references(() => users.id),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A student's rating of a tutor reply, or their report that it seems wrong
+export const messageFeedback = pgTable("message_feedback", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  studentId: integer("student_id").notNull().references(() => users.id),
+  rating: text("rating"), // 'up', 'down' or null when only reported
+  reported: boolean("reported").notNull().default(false),
+  comment: text("comment"),
+  resolvedAt: timestamp("resolved_at"), // set once a teacher corrects or dismisses it
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("message_feedback_message_student_unique").on(table.messageId, table.studentId),
+]);
+
+// A teacher's answer to a question the tutor got wrong, reused when similar questions come up
+export const correctedAnswers = pgTable("corrected_answers", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  messageId: integer("message_id").notNull().references(() => messages.id), // the reply being corrected
+  question: text("question").notNull(), // the student message the reply answered
+  answer: text("answer").notNull(),
+  authorId: integer("author_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("corrected_answers_message_unique").on(table.messageId),
+]);
+
+// A short set of practice questions generated for one student from the circuit's content
+export const practiceQuizzes = pgTable("practice_quizzes", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  studentId: integer("student_id").notNull().references(() => users.id),
+  topic: text("topic"), // what the student asked to practice, or null for the whole circuit
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"), // set once every item has been answered
+});
+
+export const quizItems = pgTable("quiz_items", {
+  id: serial("id").primaryKey(),
+  quizId: integer("quiz_id").notNull().references(() => practiceQuizzes.id),
+  position: integer("position").notNull(),
+  type: text("type").notNull(), // 'multiple_choice', 'numeric' or 'short_answer'
+  question: text("question").notNull(),
+  choices: jsonb("choices"), // answer options for multiple choice, otherwise null
+  answer: text("answer").notNull(), // the correct choice's index, the number, or a model answer
+  explanation: text("explanation").notNull(),
+  studentAnswer: text("student_answer"),
+  isCorrect: boolean("is_correct"),
+  feedback: text("feedback"), // the grader's note on a short answer
+  answeredAt: timestamp("answered_at"),
+});
+
+// A set of flashcards in a circuit, written by a teacher or generated from its content
+export const flashcardDecks = pgTable("flashcard_decks", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  title: text("title").notNull(),
+  contentId: integer("content_id").references(() => circuitContent.id), // the content it was generated from, if any
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const flashcards = pgTable("flashcards", {
+  id: serial("id").primaryKey(),
+  deckId: integer("deck_id").notNull().references(() => flashcardDecks.id),
+  front: text("front").notNull(),
+  back: text("back").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Where a student is in reviewing one card; cards they have never seen have no row
+export const flashcardReviews = pgTable("flashcard_reviews", {
+  id: serial("id").primaryKey(),
+  cardId: integer("card_id").notNull().references(() => flashcards.id),
+  studentId: integer("student_id").notNull().references(() => users.id),
+  easeFactor: real("ease_factor").notNull().default(2.5),
+  intervalDays: integer("interval_days").notNull().default(0),
+  repetitions: integer("repetitions").notNull().default(0), // correct recalls in a row
+  dueAt: timestamp("due_at").notNull(),
+  lastReviewedAt: timestamp("last_reviewed_at").notNull().defaultNow(),
+}, (table) => [
+  unique("flashcard_reviews_card_student_unique").on(table.cardId, table.studentId),
+]);
+
+// Each time the homework guardrail changed a tutor response, kept for teacher audits
+export const policyInterventions = pgTable("policy_interventions", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id),
+  studentId: integer("student_id").notNull().references(() => users.id),
+  policies: jsonb("policies").notNull(), // the circuit's homework policies at the time
+  reason: text("reason").notNull(), // why the draft was judged to give away the solution
+  action: text("action").notNull(), // 'rewritten' or 'fallback' when the rewrite still leaked
+  originalResponse: text("original_response").notNull(),
+  finalResponse: text("final_response").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Student messages and tutor replies caught by the moderation layer, for teacher review
+export const moderationFlags = pgTable("moderation_flags", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id),
+  messageId: integer("message_id").references(() => messages.id),
+  studentId: integer("student_id").notNull().references(() => users.id),
+  source: text("source").notNull(), // 'student' or 'assistant'
+  categories: jsonb("categories").notNull(),
+  severity: text("severity").notNull(), // 'low' or 'high'
+  action: text("action").notNull(), // 'allowed', 'softened' or 'blocked'
+  classifier: text("classifier").notNull(), // which classifier raised the flag
+  content: text("content").notNull(), // the text as it was before moderation
+  reviewedAt: timestamp("reviewed_at"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Student messages disclosing self-harm, abuse or danger; these are escalated to people, not just flagged
+export const crisisAlerts = pgTable("crisis_alerts", {
+  id: serial("id").primaryKey(),
+  circuitId: integer("circuit_id").notNull().references(() => wisdomCircuits.id),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id),
+  messageId: integer("message_id").notNull().references(() => messages.id),
+  studentId: integer("student_id").notNull().references(() => users.id),
+  categories: jsonb("categories").notNull(), // 'self-harm', 'abuse' and/or 'danger'
+  content: text("content").notNull(), // the student's message
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Audit trail of who was told about each crisis alert, when, and when they saw it
+export const crisisAlertNotifications = pgTable("crisis_alert_notifications", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull().references(() => crisisAlerts.id),
+  recipientId: integer("recipient_id").notNull().references(() => users.id),
+  recipientRole: text("recipient_role").notNull(), // 'teacher' or 'counselor'
+  notifiedAt: timestamp("notified_at").notNull().defaultNow(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+}, (table) => [
+  unique("crisis_alert_notifications_alert_recipient_unique").on(table.alertId, table.recipientId),
+]);
+
 const teachingStyleSchema = z.enum(["authority", "demonstrator", "facilitator", "delegator", "hybrid"]);
 const homeworkPolicySchema = z.enum(["guide", "verify", "examples", "no_solutions"]);
 const responseTypeSchema = z.enum(["detailed", "concise", "step_by_step", "conceptual"]);
@@ -126,6 +377,7 @@ export const insertUserSchema = createInsertSchema(users)
     displayName: true,
     avatarUrl: true,
     isAdmin: true,
+    isGuardian: true,
     organizationId: true,
   })
   .extend({
@@ -134,7 +386,7 @@ export const insertUserSchema = createInsertSchema(users)
   });
 
 export const insertWisdomCircuitSchema = createInsertSchema(wisdomCircuits)
-  .omit({ id: true, code: true, createdAt: true, isArchived: true })
+  .omit({ id: true, code: true, codeExpiresAt: true, codeMaxUses: true, codeUseCount: true, createdAt: true, isArchived: true, requireApproval: true, guardianShowCircuit: true, guardianShowUsage: true, guardianShowSummaries: true, welcomeMessage: true, nudgesEnabled: true, nudgeIntervalMinutes: true, nudgeMessage: true, pinnedSuggestions: true })
   .extend({
     name: z.string().min(1, "Circuit name is required"),
     grade: z.enum(["K", "1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12"], {
@@ -153,6 +405,34 @@ export const insertWisdomCircuitSchema = createInsertSchema(wisdomCircuits)
     stateAlignment: z.string().min(1, "State alignment is required"),
   });
 
+export const circuitCodeSettingsSchema = z.object({
+  codeExpiresAt: z.coerce.date().nullable(),
+  codeMaxUses: z.number().int().positive("Maximum joins must be at least 1").nullable(),
+});
+
+export const circuitJoinSettingsSchema = z.object({
+  requireApproval: z.boolean(),
+});
+
+// {name} in either message is replaced with the student's name
+export const circuitChatSettingsSchema = z.object({
+  welcomeMessage: z.string().trim().min(1).max(500, "Welcome message must not exceed 500 characters").nullable(),
+  nudgesEnabled: z.boolean(),
+  nudgeIntervalMinutes: z.number().int().min(1, "Nudges must be at least 1 minute apart").max(60, "Nudges must be at most 60 minutes apart").nullable(),
+  nudgeMessage: z.string().trim().min(1).max(500, "Nudge message must not exceed 500 characters").nullable(),
+  pinnedSuggestions: z.array(z.string().trim().min(1).max(100, "Suggestions must not exceed 100 characters")).max(8, "Pin at most 8 suggestions"),
+});
+
+export const guardianVisibilitySchema = z.object({
+  guardianShowCircuit: z.boolean(),
+  guardianShowUsage: z.boolean(),
+  guardianShowSummaries: z.boolean(),
+});
+
+export const createGuardianInviteSchema = z.object({
+  studentId: z.number().int().positive().optional(), // teachers invite on behalf of a student
+});
+
 export const insertCircuitPromptSchema = createInsertSchema(circuitPrompts)
   .omit({ id: true, createdAt: true })
   .extend({
@@ -179,6 +459,161 @@ export const insertCircuitContentSchema = createInsertSchema(circuitContent)
     content: z.string().optional(),
   });
 
+export const insertCircuitSectionSchema = createInsertSchema(circuitSections)
+  .pick({ circuitId: true, name: true })
+  .extend({
+    name: z.string().min(1, "Section name is required").max(50, "Section name must not exceed 50 characters"),
+  });
+
+// Moving a student into a section, or back out of all sections with null
+export const enrollmentSectionSchema = z.object({
+  sectionId: z.number().int().positive().nullable(),
+});
+
+export const insertCircuitEnrollmentSchema = createInsertSchema(circuitEnrollments)
+  .omit({ id: true, enrolledAt: true, lastActiveAt: true })
+  .extend({
+    status: z.enum(["active", "pending", "blocked"]).optional(),
+  });
+
+const circuitMemberRoleSchema = z.enum(["co-teacher", "ta"]);
+
+export const insertCircuitMemberSchema = createInsertSchema(circuitMembers)
+  .omit({ id: true, addedAt: true })
+  .extend({
+    role: circuitMemberRoleSchema,
+  });
+
+export const addCircuitMemberSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+  role: circuitMemberRoleSchema,
+});
+
+export const insertConversationSchema = createInsertSchema(conversations)
+  .pick({ circuitId: true, studentId: true, title: true });
+
+export const insertMessageSchema = createInsertSchema(messages)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    role: z.enum(["user", "assistant", "teacher", "event"]),
+    content: z.string().min(1, "Message is required"),
+  });
+
+export const messageFeedbackSchema = z.object({
+  rating: z.enum(["up", "down"]).nullable().optional(),
+  reported: z.boolean().optional(),
+  comment: z.string().trim().max(1000).nullable().optional(),
+});
+
+export const correctedAnswerSchema = z.object({
+  answer: z.string().trim().min(1, "Answer is required").max(4000, "Answer is too long"),
+});
+
+export const quizItemTypeSchema = z.enum(["multiple_choice", "numeric", "short_answer"]);
+
+export const createPracticeQuizSchema = z.object({
+  topic: z.string().trim().max(200).nullable().optional(),
+});
+
+// One question as the model generates it, checked before it is stored
+export const generatedQuizItemSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("multiple_choice"),
+    question: z.string().min(1),
+    choices: z.array(z.string().min(1)).min(2).max(6),
+    answerIndex: z.number().int().min(0),
+    explanation: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal("numeric"),
+    question: z.string().min(1),
+    answer: z.number().finite(),
+    explanation: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal("short_answer"),
+    question: z.string().min(1),
+    answer: z.string().min(1),
+    explanation: z.string().min(1),
+  }),
+]);
+
+export const quizAnswerSchema = z.object({
+  answer: z.string().trim().min(1, "Answer is required").max(1000, "Answer is too long"),
+});
+
+export const flashcardSchema = z.object({
+  front: z.string().trim().min(1, "Front is required").max(500, "Front is too long"),
+  back: z.string().trim().min(1, "Back is required").max(2000, "Back is too long"),
+});
+
+export const flashcardDeckSchema = z.object({
+  title: z.string().trim().min(1, "Deck title is required").max(100, "Deck title is too long"),
+  cards: z.array(flashcardSchema).max(200, "A deck can hold at most 200 cards").default([]),
+});
+
+export const generateFlashcardDeckSchema = z.object({
+  contentId: z.number().int().positive().optional(), // all of the circuit's content when omitted
+});
+
+// How well the student recalled a card, on SM-2's 0 (blank) to 5 (perfect) scale
+export const flashcardReviewSchema = z.object({
+  quality: z.number().int().min(0).max(5),
+});
+
+// Messages a browser sends over the live chat WebSocket
+export const liveChatClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("watch"), circuitId: z.number().int() }),
+  z.object({ type: z.literal("subscribe"), conversationId: z.number().int() }),
+  z.object({ type: z.literal("takeover"), conversationId: z.number().int() }),
+  z.object({ type: z.literal("message"), conversationId: z.number().int(), content: z.string().trim().min(1).max(4000) }),
+  z.object({ type: z.literal("release"), conversationId: z.number().int() }),
+]);
+
+export const insertMessageNoteSchema = z.object({
+  content: z.string().trim().min(1, "Note is required").max(2000, "Note is too long"),
+});
+
+// Filters for the teacher's transcript review; dates bound when the conversation was active
+export const transcriptQuerySchema = z.object({
+  studentId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  q: z.string().trim().max(200).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const insertPolicyInterventionSchema = createInsertSchema(policyInterventions)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    policies: z.array(homeworkPolicySchema),
+    action: z.enum(["rewritten", "fallback"]),
+  });
+
+export const moderationCategorySchema = z.enum(["profanity", "sexual", "violence", "drugs", "harassment", "hate", "self-harm"]);
+
+export const insertModerationFlagSchema = createInsertSchema(moderationFlags)
+  .omit({ id: true, reviewedAt: true, reviewedBy: true, createdAt: true })
+  .extend({
+    source: z.enum(["student", "assistant"]),
+    categories: z.array(moderationCategorySchema),
+    severity: z.enum(["low", "high"]),
+    action: z.enum(["allowed", "softened", "blocked"]),
+  });
+
+export const crisisCategorySchema = z.enum(["self-harm", "abuse", "danger"]);
+
+export const insertCrisisAlertSchema = createInsertSchema(crisisAlerts)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    categories: z.array(crisisCategorySchema).min(1),
+  });
+
+export const organizationCounselorSchema = z.object({
+  email: z.string().email().nullable(), // null removes the counselor
+});
+
 export const insertOrganizationSchema = createInsertSchema(organizations)
   .extend({
     name: z.string().min(1, "Organization name is required"),
@@ -220,6 +655,188 @@ export type InsertCircuitPrompt = z.infer<typeof insertCircuitPromptSchema>;
 export type CircuitPrompt = typeof circuitPrompts.$inferSelect;
 export type InsertCircuitContent = z.infer<typeof insertCircuitContentSchema>;
 export type CircuitContent = typeof circuitContent.$inferSelect;
+export type InsertCircuitSection = z.infer<typeof insertCircuitSectionSchema>;
+export type CircuitSection = typeof circuitSections.$inferSelect;
+export type InsertCircuitEnrollment = z.infer<typeof insertCircuitEnrollmentSchema>;
+export type CircuitEnrollment = typeof circuitEnrollments.$inferSelect;
+export type RosterEntry = CircuitEnrollment & {
+  student: Pick<User, "id" | "email" | "displayName" | "avatarUrl">;
+};
+export type InsertCircuitMember = z.infer<typeof insertCircuitMemberSchema>;
+export type CircuitMember = typeof circuitMembers.$inferSelect;
+export type CircuitMemberEntry = CircuitMember & {
+  user: Pick<User, "id" | "email" | "displayName" | "avatarUrl">;
+};
+export type CircuitRole = "owner" | InsertCircuitMember["role"];
+export type CircuitCodeSettings = z.infer<typeof circuitCodeSettingsSchema>;
+export type CircuitJoinSettings = z.infer<typeof circuitJoinSettingsSchema>;
+export type CircuitChatSettings = z.infer<typeof circuitChatSettingsSchema>;
+export type ChatSuggestion = {
+  text: string;
+  icon: string;
+  source: "pinned" | "content" | "prompt" | "general";
+};
+export type JoinRequest = RosterEntry & {
+  circuitName: string;
+};
+export type RosterImportRow = {
+  row: number;
+  email: string | null;
+  status: "created" | "skipped" | "error";
+  message?: string;
+  temporaryPassword?: string; // only for new accounts without a password in the file
+};
+export type RosterImportReport = {
+  created: number;
+  skipped: number;
+  errors: number;
+  rows: RosterImportRow[];
+};
+export type GuardianVisibility = z.infer<typeof guardianVisibilitySchema>;
+export type GuardianLink = typeof guardianLinks.$inferSelect;
+export type GuardianLinkEntry = GuardianLink & {
+  guardian: Pick<User, "id" | "email" | "displayName"> | null;
+};
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type Message = typeof messages.$inferSelect;
+// A message as sent to browsers: where an attached photo is stored stays on
+// the server, and the photo is fetched from /api/messages/:id/attachment
+export type PublicMessage = Omit<Message, "attachmentPath">;
+export type Citation = {
+  contentId: number;
+  marker: number; // the [n] the tutor wrote in its reply
+  title: string;
+  excerpt: string;
+  contentUrl: string; // empty for content with no file, such as class recording transcripts
+};
+export type ConversationSummary = Pick<Conversation, "id" | "title" | "createdAt" | "updatedAt"> & {
+  messageCount: number;
+};
+export type ConversationWithMessages = Conversation & {
+  messages: PublicMessage[];
+  feedback?: MessageFeedback[]; // the student's own ratings, when they are the one asking
+};
+export type MessageFeedbackInput = z.infer<typeof messageFeedbackSchema>;
+export type MessageFeedback = typeof messageFeedback.$inferSelect;
+export type CorrectedAnswer = typeof correctedAnswers.$inferSelect;
+// A low-rated or reported reply waiting in the teacher's queue
+export type MessageFeedbackEntry = MessageFeedback & {
+  student: Pick<User, "id" | "email" | "displayName">;
+  question: string | null;
+  answer: string;
+  correction: Pick<CorrectedAnswer, "id" | "answer" | "createdAt"> | null;
+};
+export type FlashcardInput = z.infer<typeof flashcardSchema>;
+export type FlashcardDeckInput = z.infer<typeof flashcardDeckSchema>;
+export type FlashcardDeck = typeof flashcardDecks.$inferSelect;
+export type Flashcard = typeof flashcards.$inferSelect;
+export type FlashcardReview = typeof flashcardReviews.$inferSelect;
+export type FlashcardDeckWithCards = FlashcardDeck & {
+  cards: Flashcard[];
+};
+export type DueFlashcard = Flashcard & {
+  deckTitle: string;
+  review: FlashcardReview | null; // null for cards the student has not seen yet
+};
+export type FlashcardDueCount = {
+  circuitId: number;
+  due: number;
+};
+export type QuizItemType = z.infer<typeof quizItemTypeSchema>;
+export type GeneratedQuizItem = z.infer<typeof generatedQuizItemSchema>;
+export type PracticeQuiz = typeof practiceQuizzes.$inferSelect;
+export type QuizItem = typeof quizItems.$inferSelect;
+// What a student sees of an item: the answer and explanation stay on the
+// server until the item has been answered
+export type StudentQuizItem = Omit<QuizItem, "answer" | "explanation"> & {
+  answer: string | null;
+  explanation: string | null;
+};
+export type PracticeQuizWithItems<Item = QuizItem> = PracticeQuiz & {
+  items: Item[];
+};
+export type QuizResultEntry = PracticeQuizWithItems & {
+  student: Pick<User, "id" | "email" | "displayName">;
+};
+// Payloads of the Server-Sent Events streamed back by the circuit chat, by event name
+export type ChatStreamEvents = {
+  start: { conversationId: number };
+  token: { token: string };
+  replace: { text: string }; // moderation stopped the reply, which becomes this text
+  paused: { teacherName: string };
+  done: { conversationId: number; messageId?: number | null; citations?: Citation[] };
+  error: { error: string };
+};
+export type ChatStreamEvent = {
+  [Event in keyof ChatStreamEvents]: { event: Event; data: ChatStreamEvents[Event] };
+}[keyof ChatStreamEvents];
+export type LiveChatClientMessage = z.infer<typeof liveChatClientMessageSchema>;
+// Events the server pushes over the live chat WebSocket
+export type LiveChatEvent =
+  | { type: "message"; circuitId: number; conversationId: number; message: PublicMessage }
+  | { type: "takeover"; circuitId: number; conversationId: number; teacherId: number | null; teacherName: string | null }
+  | { type: "error"; error: string };
+export type MessageNote = typeof messageNotes.$inferSelect;
+export type MessageNoteEntry = MessageNote & {
+  author: Pick<User, "id" | "email" | "displayName">;
+};
+export type TranscriptQuery = z.infer<typeof transcriptQuerySchema>;
+export type TranscriptSummary = ConversationSummary & Pick<Conversation, "takenOverBy"> & {
+  student: Pick<User, "id" | "email" | "displayName">;
+};
+export type TranscriptPage = {
+  conversations: TranscriptSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+export type Transcript = ConversationWithMessages & {
+  student: Pick<User, "id" | "email" | "displayName">;
+  notes: MessageNoteEntry[];
+};
+export type InsertPolicyIntervention = z.infer<typeof insertPolicyInterventionSchema>;
+export type PolicyIntervention = typeof policyInterventions.$inferSelect;
+export type PolicyInterventionEntry = PolicyIntervention & {
+  student: Pick<User, "id" | "email" | "displayName">;
+};
+export type PolicyInterventionReport = {
+  total: number;
+  thisWeek: number;
+  interventions: PolicyInterventionEntry[];
+};
+export type ModerationCategory = z.infer<typeof moderationCategorySchema>;
+export type InsertModerationFlag = z.infer<typeof insertModerationFlagSchema>;
+export type ModerationFlag = typeof moderationFlags.$inferSelect;
+export type ModerationFlagEntry = ModerationFlag & {
+  student: Pick<User, "id" | "email" | "displayName">;
+};
+export type CrisisCategory = z.infer<typeof crisisCategorySchema>;
+export type InsertCrisisAlert = z.infer<typeof insertCrisisAlertSchema>;
+export type CrisisAlert = typeof crisisAlerts.$inferSelect;
+export type CrisisAlertNotification = typeof crisisAlertNotifications.$inferSelect;
+export type CrisisAlertEntry = CrisisAlert & {
+  student: Pick<User, "id" | "email" | "displayName">;
+  circuitName: string;
+  acknowledgedAt: Date | null; // when the current user acknowledged it
+  notifications: (CrisisAlertNotification & { recipient: Pick<User, "id" | "email" | "displayName"> })[];
+};
+export type GuardianCircuitSummary = Pick<WisdomCircuit, "id" | "name" | "grade" | "teacherName"> & {
+  // Each section is left out when the teacher hides it from guardians
+  lastActiveAt?: Date | null;
+  weeklyMessages?: number;
+  conversations?: ConversationSummary[];
+};
+export type GuardianStudentOverview = {
+  student: Pick<User, "id" | "email" | "displayName" | "avatarUrl">;
+  circuits: GuardianCircuitSummary[];
+};
+export type CircuitReport = {
+  enrolledStudents: number;
+  activeStudents: number;
+  newContent: number;
+};
 export type Organization = typeof organizations.$inferSelect;
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect;
@@ -229,4 +846,13 @@ export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
 export type CircuitAllocation = typeof circuitAllocations.$inferSelect;
 export type InsertCircuitAllocation = z.infer<typeof insertCircuitAllocationSchema>;
 export type Payment = typeof payments.$inferSelect;
-export type InsertPayment = z.infer<typeof insertPaymentSchema>;
\ No newline at end of file
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+
+// Owners and co-teachers manage a circuit; TAs can only view its reports
+export function canManageCircuit(role: CircuitRole | undefined): boolean {
+  return role === "owner" || role === "co-teacher";
+}
+
+export function toPublicMessage({ attachmentPath, ...message }: Message): PublicMessage {
+  return message;
+}